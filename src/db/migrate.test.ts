@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { Migration, getPendingMigrations, renderStatement, splitStatements } from './migrate'
+import { Schema } from './schema'
+
+const schema: Schema = { database: 'soldexer', tablePrefix: 'staging_' }
+
+describe('splitStatements', () => {
+  it('splits on semicolons', () => {
+    expect(splitStatements('SELECT 1;\nSELECT 2;\n')).toEqual(['SELECT 1', 'SELECT 2'])
+  })
+
+  it('keeps a last statement without a semicolon', () => {
+    expect(splitStatements('SELECT 1;\nSELECT 2')).toEqual(['SELECT 1', 'SELECT 2'])
+  })
+
+  it('ignores semicolons in strings and quoted identifiers', () => {
+    expect(splitStatements(`SELECT 'a;b', "c;d", \`e;f\`; SELECT 2`)).toEqual([
+      `SELECT 'a;b', "c;d", \`e;f\``,
+      'SELECT 2',
+    ])
+  })
+
+  it('handles escaped quotes', () => {
+    expect(splitStatements(`SELECT 'it''s;', 'back\\';slash'; SELECT 2`)).toEqual([
+      `SELECT 'it''s;', 'back\\';slash'`,
+      'SELECT 2',
+    ])
+  })
+
+  it('ignores semicolons in comments', () => {
+    expect(splitStatements('-- first; statement\nSELECT 1 /* a; b */;\nSELECT 2')).toEqual([
+      '-- first; statement\nSELECT 1 /* a; b */',
+      'SELECT 2',
+    ])
+  })
+
+  it('drops statements made only of comments', () => {
+    expect(splitStatements('SELECT 1;\n-- trailing comment\n/* block; comment */\n')).toEqual(['SELECT 1'])
+  })
+
+  it('keeps statements made only of a string', () => {
+    expect(splitStatements("'a';")).toEqual(["'a'"])
+  })
+
+  it('throws on unterminated quotes and comments', () => {
+    expect(() => splitStatements("SELECT 'a;")).toThrow("Unterminated ' quote")
+    expect(() => splitStatements('SELECT 1 /* a;')).toThrow('Unterminated block comment')
+  })
+})
+
+describe('renderStatement', () => {
+  it('renders placeholders in code', () => {
+    expect(renderStatement(schema, 'CREATE TABLE {{table:t}} {{on_cluster}} ENGINE = {{replicated}}MergeTree()')).toBe(
+      'CREATE TABLE "soldexer"."staging_t"  ENGINE = MergeTree()',
+    )
+  })
+
+  it('renders cluster placeholders', () => {
+    expect(renderStatement({ ...schema, cluster: 'main' }, 'DROP TABLE {{table:t}} {{on_cluster}}')).toBe(
+      'DROP TABLE "soldexer"."staging_t" ON CLUSTER "main"',
+    )
+  })
+
+  it('keeps placeholders in strings and quoted identifiers', () => {
+    expect(renderStatement(schema, `SELECT '{{table:t}}', "{{on_cluster}}" FROM {{table:t}}`)).toBe(
+      `SELECT '{{table:t}}', "{{on_cluster}}" FROM "soldexer"."staging_t"`,
+    )
+  })
+
+  it('keeps placeholders in strings with escaped quotes', () => {
+    expect(renderStatement(schema, `SELECT 'it''s {{x}}', 'a\\' {{y}}' FROM {{table:t}}`)).toBe(
+      `SELECT 'it''s {{x}}', 'a\\' {{y}}' FROM "soldexer"."staging_t"`,
+    )
+  })
+
+  it('keeps placeholders in comments', () => {
+    expect(renderStatement(schema, '-- {{unknown}}\nSELECT 1 /* {{table:t}} */ FROM {{table:t}}')).toBe(
+      '-- {{unknown}}\nSELECT 1 /* {{table:t}} */ FROM "soldexer"."staging_t"',
+    )
+  })
+
+  it('throws on unknown placeholders in code', () => {
+    expect(() => renderStatement(schema, 'SELECT {{unknown}}')).toThrow('Unknown SQL placeholder: {{unknown}}')
+  })
+})
+
+describe('getPendingMigrations', () => {
+  const migration = (version: number, checksum: string, equivalentChecksums: string[] = []): Migration => ({
+    pipe: 'swaps',
+    version,
+    file: `000${version}_initial.sql`,
+    checksum,
+    equivalentChecksums,
+    statements: [],
+  })
+
+  it('returns migrations that are not applied', () => {
+    const migrations = [migration(1, 'a'), migration(2, 'b')]
+
+    expect(
+      getPendingMigrations('swaps', migrations, [{ version: 1, file: '0001_initial.sql', checksum: 'a' }]),
+    ).toEqual([migrations[1]])
+  })
+
+  it('accepts equivalent checksums of applied migrations', () => {
+    const migrations = [migration(1, 'a', ['untemplated'])]
+
+    expect(
+      getPendingMigrations('swaps', migrations, [{ version: 1, file: '0001_initial.sql', checksum: 'untemplated' }]),
+    ).toEqual([])
+  })
+
+  it('throws on modified migrations', () => {
+    expect(() =>
+      getPendingMigrations('swaps', [migration(1, 'a')], [{ version: 1, file: '0001_initial.sql', checksum: 'b' }]),
+    ).toThrow('was modified after it was applied')
+  })
+})
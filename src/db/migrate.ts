@@ -0,0 +1,251 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { Schema, renderSql } from './schema'
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations')
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/
+
+/**
+ * Checksums of the first migrations as released before their DDL was templated. They render to the same DDL
+ * for the default database without a table prefix, where the databases migrated with them keep their tables,
+ * so they are accepted instead of failing the checksum check.
+ */
+const UNTEMPLATED_CHECKSUMS: Record<string, string[]> = {
+  'clickhouse/balances/0001_initial.sql': ['bb2ab3f992e6bd5284ab68d3eb19e3dccac9827defd0224c9558c1bda7db2b38'],
+  'clickhouse/liquidity/0001_initial.sql': ['7460afa52347936a5915612610513264a897c3fc3e254113fb6c8e67573e8945'],
+  'clickhouse/metaplex/0001_initial.sql': ['4183cd3d2401535e698cfa3c443db271eb8ed86fd959c13fade92e5789c9aa88'],
+  'clickhouse/offchain-metadata/0001_initial.sql': ['ba293cf34b19f4223cd5c21b5cba0818d9e30e74cdf43bf21b92d54c41cd444b'],
+  'clickhouse/pools/0001_initial.sql': ['74d137b576c5a677917f8eb096e169bccf793a3c6286836e93ebce3e3ebeed89'],
+  'clickhouse/pumpfun.bonding-curve-swaps/0001_initial.sql': [
+    '8e88e91b83a28daa51a6bc75b57b4f7bd4eaffbf0990fa7afc16c6ef966e2ad3',
+  ],
+  'clickhouse/pumpfun.graduations/0001_initial.sql': [
+    '7804c89410ddec55466243f543e39e06e702829d99aea1b1230e96ab50ef69c3',
+  ],
+  'clickhouse/pumpfun.token-creation/0001_initial.sql': [
+    '47a52e1034fc1e791a7f684454f6f1f4f0c14ac2b792cace734e725e5931fbd2',
+  ],
+  'clickhouse/raydium-cpmm.lp-changes/0001_initial.sql': [
+    '88eecacb88452489069b4e34ffc7ebe635ec88b2c18a50aa7c6ffb0a5144ee87',
+  ],
+  'clickhouse/swaps/0001_initial.sql': ['ac023da147c8076d9cc217024794aaaab09eb2b5a9fc267de208242d9428a3a7'],
+  'clickhouse/token-2022.mint-extensions/0001_initial.sql': [
+    '7f4f974170738d632506dc0e5a8b91b735a6dbbad63ccfcfcb2ae03ee2131c7e',
+  ],
+  'clickhouse/token-supply/0001_initial.sql': ['ede477cab36c02b5ccf5bfe52caa9fc4d91ddc0abc01b53f5c342e258b9b9958'],
+  'clickhouse/transfers/0001_initial.sql': ['39e09533c577d00280b7b25a25a1fe49466a92d101b69a75c6e51e88b1d4c29d'],
+}
+
+export type Dialect = 'clickhouse' | 'postgres'
+
+export interface Migration {
+  pipe: string
+  version: number
+  file: string
+  checksum: string
+  // Earlier checksums of the same DDL, applied migrations with them are not reported as modified
+  equivalentChecksums: string[]
+  statements: string[]
+}
+
+export type AppliedMigration = {
+  version: number
+  file: string
+  checksum: string
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+type Segment = {
+  kind: 'code' | 'quoted' | 'comment'
+  text: string
+}
+
+/**
+ * Splits a SQL script into statements on `;`.
+ * Semicolons inside quoted strings, quoted identifiers and comments are not separators,
+ * and statements made only of comments are dropped.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = []
+  let statement = ''
+  let hasCode = false
+
+  const push = () => {
+    if (hasCode) statements.push(statement.trim())
+    statement = ''
+    hasCode = false
+  }
+
+  for (const { kind, text } of getSegments(sql)) {
+    if (kind !== 'code') {
+      statement += text
+      if (kind === 'quoted') hasCode = true
+      continue
+    }
+
+    const parts = text.split(';')
+    for (let i = 0; i < parts.length; i++) {
+      if (i > 0) push()
+      statement += parts[i]
+      if (parts[i].trim()) hasCode = true
+    }
+  }
+  push()
+
+  return statements
+}
+
+/**
+ * Renders the placeholders of a statement, see `renderSql`.
+ * Quoted strings, quoted identifiers and comments are kept as they are, so they can mention placeholders.
+ */
+export function renderStatement(schema: Schema, statement: string) {
+  return getSegments(statement)
+    .map(({ kind, text }) => (kind === 'code' ? renderSql(schema, text) : text))
+    .join('')
+}
+
+// Splits SQL into code and the quoted strings, quoted identifiers and comments within it
+function getSegments(sql: string): Segment[] {
+  const segments: Segment[] = []
+  let start = 0
+
+  const push = (kind: Segment['kind'], end: number) => {
+    if (end > start) segments.push({ kind, text: sql.slice(start, end) })
+    start = end
+  }
+
+  let i = 0
+  while (i < sql.length) {
+    const c = sql[i]
+    let kind: Segment['kind']
+    let end: number
+
+    if (c === '-' && sql[i + 1] === '-') {
+      const newline = sql.indexOf('\n', i)
+      kind = 'comment'
+      end = newline === -1 ? sql.length : newline + 1
+    } else if (c === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2)
+      if (close === -1) throw new MigrationError('Unterminated block comment')
+      kind = 'comment'
+      end = close + 2
+    } else if (c === "'" || c === '"' || c === '`') {
+      kind = 'quoted'
+      end = skipQuoted(sql, i)
+    } else {
+      i++
+      continue
+    }
+
+    push('code', i)
+    push(kind, end)
+    i = end
+  }
+  push('code', sql.length)
+
+  return segments
+}
+
+// Returns the index after the closing quote, quotes are escaped either with a backslash or by doubling them
+function skipQuoted(sql: string, start: number) {
+  const quote = sql[start]
+
+  for (let i = start + 1; i < sql.length; i++) {
+    if (sql[i] === '\\') {
+      i++
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1
+      i++
+    }
+  }
+
+  throw new MigrationError(`Unterminated ${quote} quote`)
+}
+
+/**
+ * Reads the migrations of a pipe from `migrations/<dialect>/<pipe>/<version>_<name>.sql`, ordered by version.
+ * The checksum is taken from the template, so the same migration can be applied to different schemas.
+ */
+export async function loadMigrations(dialect: Dialect, pipe: string, schema: Schema): Promise<Migration[]> {
+  const dir = path.join(MIGRATIONS_DIR, dialect, pipe)
+  const files = await fs.readdir(dir).catch(() => {
+    throw new MigrationError(`No ${dialect} migrations found for ${pipe} in ${dir}`)
+  })
+
+  const migrations: Migration[] = []
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file)
+    if (!match) continue
+
+    // Line endings are normalized so the checksum doesn't depend on the git checkout settings
+    const sql = (await fs.readFile(path.join(dir, file), 'utf-8')).replace(/\r\n/g, '\n')
+
+    migrations.push({
+      pipe,
+      version: Number(match[1]),
+      file,
+      checksum: crypto.createHash('sha256').update(sql).digest('hex'),
+      equivalentChecksums: UNTEMPLATED_CHECKSUMS[`${dialect}/${pipe}/${file}`] ?? [],
+      statements: splitStatements(sql).map((statement) => renderStatement(schema, statement)),
+    })
+  }
+
+  migrations.sort((a, b) => a.version - b.version)
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new MigrationError(
+        `Migrations ${pipe}/${migrations[i - 1].file} and ${pipe}/${migrations[i].file} have the same version`,
+      )
+    }
+  }
+
+  return migrations
+}
+
+/**
+ * Returns the migrations of a pipe that are not applied yet.
+ * Applied migrations can't be changed or removed, and new ones can't be numbered before them,
+ * as there is no way to roll the schema back.
+ */
+export function getPendingMigrations(pipe: string, migrations: Migration[], applied: AppliedMigration[]): Migration[] {
+  for (const { version, file, checksum } of applied) {
+    const migration = migrations.find((m) => m.version === version)
+    if (!migration) {
+      throw new MigrationError(`Migration ${pipe}/${file} was applied, but its file no longer exists`)
+    }
+    if (migration.checksum !== checksum && !migration.equivalentChecksums.includes(checksum)) {
+      throw new MigrationError(
+        `Migration ${pipe}/${migration.file} was modified after it was applied, add a new migration instead`,
+      )
+    }
+  }
+
+  const lastApplied = applied.length > 0 ? applied[applied.length - 1].version : 0
+  const pending = migrations.filter((m) => !applied.some((a) => a.version === m.version))
+  const outOfOrder = pending.find((m) => m.version < lastApplied)
+  if (outOfOrder) {
+    throw new MigrationError(
+      `Migration ${pipe}/${outOfOrder.file} is numbered before the already applied version ${lastApplied}`,
+    )
+  }
+
+  return pending
+}
+
+// Dry-run output, the DDL is printed to stdout so it can be piped into a file
+export function printMigrations(migrations: Migration[]) {
+  for (const migration of migrations) {
+    console.log(`-- ${migration.pipe}/${migration.file}`)
+    for (const statement of migration.statements) {
+      console.log(`${statement};\n`)
+    }
+  }
+}
@@ -0,0 +1,17 @@
+-- Latest balance of every token account, closed accounts are kept with a zero amount
+CREATE TABLE IF NOT EXISTS {{table:solana_token_balances}} {{on_cluster}}
+(
+    timestamp         DateTime CODEC (DoubleDelta, ZSTD),
+    owner             String,
+    mint              String,
+    account           String,
+    decimals          UInt8,
+    amount            UInt64,
+    block_number      UInt32,
+    transaction_index UInt16,
+    transaction_hash  String,
+
+    INDEX mint_idx mint TYPE bloom_filter GRANULARITY 1
+-- Not partitioned by time, as versions are only replaced within a partition
+) ENGINE = {{replicated}}ReplacingMergeTree(block_number)
+      ORDER BY (owner, mint, account);
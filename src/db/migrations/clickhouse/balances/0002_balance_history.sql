@@ -0,0 +1,77 @@
+-- Tables created before kept only the latest balance keyed by owner, so an account moved to another owner kept
+-- a stale row under the previous one, and rolling back a block deleted the only version of its accounts.
+-- Balances are now kept as versions per account, rollbacks delete the versions of orphaned blocks, and
+-- solana_token_balances is a view of the latest version of every account.
+-- Every statement can be run again after a failure.
+CREATE TABLE IF NOT EXISTS {{table:solana_token_balance_history}} {{on_cluster}}
+(
+    timestamp         DateTime CODEC (DoubleDelta, ZSTD),
+    owner             String,
+    mint              String,
+    account           String,
+    decimals          UInt8,
+    -- Post balance, zero once the token account is closed
+    amount            UInt64,
+    block_number      UInt32,
+    transaction_index UInt16,
+    transaction_hash  String,
+
+    INDEX owner_idx owner TYPE bloom_filter GRANULARITY 1,
+    INDEX mint_idx mint TYPE bloom_filter GRANULARITY 1
+-- Only the last balance of an account in a block is written, so a version is replaced only by a retried insert
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      PARTITION BY toYYYYMM(timestamp)
+      ORDER BY (account, block_number);
+
+-- Recreated empty if a failed run already dropped it
+CREATE TABLE IF NOT EXISTS {{table:solana_token_balances}} {{on_cluster}}
+(
+    timestamp         DateTime CODEC (DoubleDelta, ZSTD),
+    owner             String,
+    mint              String,
+    account           String,
+    decimals          UInt8,
+    amount            UInt64,
+    block_number      UInt32,
+    transaction_index UInt16,
+    transaction_hash  String
+) ENGINE = {{replicated}}ReplacingMergeTree(block_number)
+      ORDER BY (owner, mint, account);
+
+-- The latest balances already indexed become the first versions of their accounts. Stale rows of accounts
+-- moved to another owner are dropped, as only the version of the highest block is kept per account.
+INSERT INTO {{table:solana_token_balance_history}}
+    (timestamp, owner, mint, account, decimals, amount, block_number, transaction_index, transaction_hash)
+SELECT argMax(timestamp, block_number),
+       argMax(owner, block_number),
+       argMax(mint, block_number),
+       account,
+       argMax(decimals, block_number),
+       argMax(amount, block_number),
+       max(block_number),
+       argMax(transaction_index, block_number),
+       argMax(transaction_hash, block_number)
+FROM {{table:solana_token_balances}}
+GROUP BY account;
+
+DROP TABLE IF EXISTS {{table:solana_token_balances}} {{on_cluster}};
+
+-- Latest version of every token account, closed accounts are kept with a zero amount
+CREATE VIEW IF NOT EXISTS {{table:solana_token_balances}} {{on_cluster}}
+AS
+SELECT latest.1 AS timestamp,
+       latest.2 AS owner,
+       latest.3 AS mint,
+       account,
+       latest.4 AS decimals,
+       latest.5 AS amount,
+       latest.6 AS block_number,
+       latest.7 AS transaction_index,
+       latest.8 AS transaction_hash
+FROM (
+    SELECT account,
+           argMax((timestamp, owner, mint, decimals, amount, block_number, transaction_index, transaction_hash),
+                  block_number) AS latest
+    FROM {{table:solana_token_balance_history}}
+    GROUP BY account
+);
@@ -1,28 +1,27 @@
-CREATE TABLE IF NOT EXISTS solana_swaps_raw
+CREATE TABLE IF NOT EXISTS {{table:solana_liquidity_changes}} {{on_cluster}}
 (
     timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
     dex                          LowCardinality(String),
+    action                       Enum8('increase' = 1, 'decrease' = 2),
+    account                      String,
+    pool_address                 String,
+    position                     String,
+    position_mint                String,
+    tick_lower                   Nullable(Int32),
+    tick_upper                   Nullable(Int32),
+    liquidity_delta              UInt128,
     token_a                      String,
     token_b                      String,
     amount_a                     Float64,
     amount_b                     Float64,
-    account                      String,
     block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
     transaction_index            UInt16,
     instruction_address          Array (UInt16),
     transaction_hash             String,
-    slippage                     Float64,
-    pool_token_a_reserve         Float64,
-    pool_token_b_reserve         Float64,
     sign                         Int8,
-    pool_address                 String,
 
-    -- Secondary indexes
-    INDEX idx_account_timestamp (timestamp, account) TYPE minmax GRANULARITY 1,
-    INDEX idx_account (account) TYPE bloom_filter(0.01) GRANULARITY 1,
     INDEX pool_idx pool_address TYPE bloom_filter GRANULARITY 1,
-    INDEX amount_a_idx amount_a TYPE minmax GRANULARITY 4
-) ENGINE = CollapsingMergeTree(sign)
-      PARTITION BY toYYYYMM(timestamp) -- DATA WILL BE SPLIT BY MONTH
+    INDEX position_idx position TYPE bloom_filter GRANULARITY 1
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+      PARTITION BY toYYYYMM(timestamp)
       ORDER BY (block_number, transaction_index, instruction_address);
-
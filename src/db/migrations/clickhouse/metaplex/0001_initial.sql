@@ -0,0 +1,71 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_metaplex_tokens}} {{on_cluster}}
+(
+    timestamp           DateTime CODEC (DoubleDelta, ZSTD),
+    account             String,
+    name                String,
+    symbol              String,
+    mint                String,
+    uri                 String,
+    transaction_hash    String,
+    block_number        UInt32,
+    is_mutable Bool,
+    -- Every create and update is written as a new version of the full token state
+    event_type          Enum8('create' = 1, 'update' = 2),
+    update_authority    String,
+    primary_sale_happened Bool,
+    transaction_index   UInt16,
+    instruction_address Array (UInt16),
+    seller_fee_basis_points UInt16,
+    creators            Array (Tuple(address String, verified Bool, share UInt8)),
+    -- Only set by the modern create and update instructions
+    token_standard      LowCardinality(String),
+    collection          String
+-- Not partitioned by time, as versions are only replaced within a partition
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (account);
+
+-- Add update details to tables created before updates were tracked
+ALTER TABLE {{table:solana_metaplex_tokens}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS event_type Enum8('create' = 1, 'update' = 2),
+    ADD COLUMN IF NOT EXISTS update_authority String,
+    ADD COLUMN IF NOT EXISTS primary_sale_happened Bool,
+    ADD COLUMN IF NOT EXISTS transaction_index UInt16,
+    ADD COLUMN IF NOT EXISTS instruction_address Array (UInt16);
+
+-- Add asset details to tables created before the modern instructions were tracked
+ALTER TABLE {{table:solana_metaplex_tokens}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS seller_fee_basis_points UInt16,
+    ADD COLUMN IF NOT EXISTS creators Array (Tuple(address String, verified Bool, share UInt8)),
+    ADD COLUMN IF NOT EXISTS token_standard LowCardinality(String),
+    ADD COLUMN IF NOT EXISTS collection String;
+
+-- Collection membership verification of tokens, the latest change per token and collection wins
+CREATE TABLE IF NOT EXISTS {{table:solana_metaplex_collection_items}} {{on_cluster}}
+(
+    timestamp           DateTime CODEC (DoubleDelta, ZSTD),
+    account             String,
+    collection_mint     String,
+    authority           String,
+    verified            Bool,
+    transaction_hash    String,
+    block_number        UInt32,
+    transaction_index   UInt16,
+    instruction_address Array (UInt16)
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (collection_mint, account);
+
+-- Create materialized view for daily Metaplex token creation statistics
+CREATE MATERIALIZED VIEW IF NOT EXISTS {{table:solana_metaplex_daily}} {{on_cluster}}
+ENGINE = {{replicated}}AggregatingMergeTree()
+PARTITION BY toYYYYMM(timestamp)
+ORDER BY (timestamp)
+AS
+SELECT
+    toStartOfDay(timestamp) as timestamp,
+    countState() as total_tokens,
+    uniqState(symbol) as unique_symbols,
+    uniqState(mint) as unique_mints,
+    uniqState(account) as unique_accounts
+FROM {{table:solana_metaplex_tokens}}
+WHERE event_type = 'create'
+GROUP BY timestamp;
@@ -0,0 +1,76 @@
+-- Tables created before updates were tracked are partitioned by month, so a token updated in a later month
+-- than it was created keeps both versions. The partition key can't be altered, so the table is rebuilt
+-- without one. Every statement can be run again after a failure, the rebuild starts over from a fresh copy.
+DROP TABLE IF EXISTS {{table:solana_metaplex_tokens_rebuild}} {{on_cluster}};
+
+CREATE TABLE {{table:solana_metaplex_tokens_rebuild}} {{on_cluster}}
+(
+    timestamp           DateTime CODEC (DoubleDelta, ZSTD),
+    account             String,
+    name                String,
+    symbol              String,
+    mint                String,
+    uri                 String,
+    transaction_hash    String,
+    block_number        UInt32,
+    is_mutable Bool,
+    -- Every create and update is written as a new version of the full token state
+    event_type          Enum8('create' = 1, 'update' = 2),
+    update_authority    String,
+    primary_sale_happened Bool,
+    transaction_index   UInt16,
+    instruction_address Array (UInt16),
+    seller_fee_basis_points UInt16,
+    creators            Array (Tuple(address String, verified Bool, share UInt8)),
+    -- Only set by the modern create and update instructions
+    token_standard      LowCardinality(String),
+    collection          String
+-- Not partitioned by time, as versions are only replaced within a partition
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (account);
+
+-- Columns are listed as tables altered by earlier versions have them in a different order
+INSERT INTO {{table:solana_metaplex_tokens_rebuild}}
+    (timestamp, account, name, symbol, mint, uri, transaction_hash, block_number, is_mutable, event_type,
+     update_authority, primary_sale_happened, transaction_index, instruction_address, seller_fee_basis_points,
+     creators, token_standard, collection)
+SELECT timestamp, account, name, symbol, mint, uri, transaction_hash, block_number, is_mutable, event_type,
+       update_authority, primary_sale_happened, transaction_index, instruction_address, seller_fee_basis_points,
+       creators, token_standard, collection
+FROM {{table:solana_metaplex_tokens}};
+
+EXCHANGE TABLES {{table:solana_metaplex_tokens}} AND {{table:solana_metaplex_tokens_rebuild}} {{on_cluster}};
+
+DROP TABLE IF EXISTS {{table:solana_metaplex_tokens_rebuild}} {{on_cluster}};
+
+-- Views created before updates were tracked count updates as new tokens, and CREATE ... IF NOT EXISTS
+-- kept them. The view is recreated to count creates only.
+DROP VIEW IF EXISTS {{table:solana_metaplex_daily}} {{on_cluster}};
+
+CREATE MATERIALIZED VIEW {{table:solana_metaplex_daily}} {{on_cluster}}
+ENGINE = {{replicated}}AggregatingMergeTree()
+PARTITION BY toYYYYMM(timestamp)
+ORDER BY (timestamp)
+AS
+SELECT
+    toStartOfDay(timestamp) as timestamp,
+    countState() as total_tokens,
+    uniqState(symbol) as unique_symbols,
+    uniqState(mint) as unique_mints,
+    uniqState(account) as unique_accounts
+FROM {{table:solana_metaplex_tokens}}
+WHERE event_type = 'create'
+GROUP BY timestamp;
+
+-- Backfill from the tokens already indexed. Tokens whose create version was already replaced by an update
+-- are missing from the counts, re-index their blocks to recount them.
+INSERT INTO {{table:solana_metaplex_daily}}
+SELECT
+    toStartOfDay(timestamp) as timestamp,
+    countState() as total_tokens,
+    uniqState(symbol) as unique_symbols,
+    uniqState(mint) as unique_mints,
+    uniqState(account) as unique_accounts
+FROM {{table:solana_metaplex_tokens}}
+WHERE event_type = 'create'
+GROUP BY timestamp;
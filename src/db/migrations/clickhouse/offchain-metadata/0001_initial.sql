@@ -0,0 +1,24 @@
+-- Off-chain JSON metadata referenced by Metaplex and pump.fun tokens, one row per URI
+CREATE TABLE IF NOT EXISTS {{table:solana_token_offchain_metadata}} {{on_cluster}}
+(
+    uri           String,
+    -- 'invalid' documents were fetched but don't follow the Metaplex JSON standard
+    status        Enum8('ok' = 1, 'invalid' = 2, 'failed' = 3),
+    -- sha256 of the fetched document, empty when it could not be fetched
+    content_hash  String,
+    name          String,
+    symbol        String,
+    description   String,
+    image         String,
+    animation_url String,
+    external_url  String,
+    website       String,
+    twitter       String,
+    telegram      String,
+    discord       String,
+    attributes    Array (Tuple(trait_type String, value String)),
+    error         String,
+    attempts      UInt16,
+    fetched_at    DateTime CODEC (DoubleDelta, ZSTD)
+) ENGINE = {{replicated}}ReplacingMergeTree(fetched_at)
+      ORDER BY (uri);
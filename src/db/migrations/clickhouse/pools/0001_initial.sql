@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pools}} {{on_cluster}}
+(
+    timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
+    dex                          LowCardinality(String),
+    pool_address                 String,
+    token_a                      String,
+    token_b                      String,
+    token_a_vault                String,
+    token_b_vault                String,
+    -- Fee tier, AMM config or preset parameters account, depending on the DEX
+    fee_config                   String,
+    tick_spacing                 Nullable(UInt16),
+    bin_step                     Nullable(UInt16),
+    creator                      String,
+    block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_hash             String,
+
+    INDEX token_a_idx token_a TYPE bloom_filter GRANULARITY 1,
+    INDEX token_b_idx token_b TYPE bloom_filter GRANULARITY 1
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (pool_address);
+
+-- Create materialized view for daily pool creation statistics
+CREATE MATERIALIZED VIEW IF NOT EXISTS {{table:solana_pools_daily}} {{on_cluster}}
+ENGINE = {{replicated}}AggregatingMergeTree()
+PARTITION BY toYYYYMM(timestamp)
+ORDER BY (timestamp, dex)
+AS
+SELECT
+    toStartOfDay(timestamp) as timestamp,
+    dex,
+    countState() as total_pools,
+    uniqState(creator) as unique_creators
+FROM {{table:solana_pools}}
+GROUP BY timestamp, dex;
@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_bonding_curve_swaps}} {{on_cluster}} (
+    timestamp DateTime CODEC (DoubleDelta, ZSTD),
+    event_type Enum8('buy' = 1, 'sell' = 2),
+    base_token String,
+    base_token_decimals UInt8,
+    quote_token String,
+    quote_token_decimals UInt8,
+    user String,
+    -- Raw amounts and bonding curve reserves after the trade, from the TradeEvent
+    sol_amount UInt64,
+    token_amount UInt64,
+    virtual_sol_reserves UInt64,
+    virtual_token_reserves UInt64,
+    real_sol_reserves UInt64,
+    real_token_reserves UInt64,
+    event_timestamp DateTime,
+    block_number UInt32 CODEC (DoubleDelta, ZSTD),
+    block_hash String,
+    transaction_index Int64,
+    transaction_hash String,
+    instruction_address Array (UInt16),
+    raw_token_price UInt128,
+    -- We used 10^18 as the scaling factor for the token price to preserve precision.
+    -- We also adjust the value to the token decimal precision.
+    token_price Float64 MATERIALIZED (raw_token_price / pow(10, 18) / pow(10, quote_token_decimals - base_token_decimals)),
+    sign Int8
+-- Rows of orphaned blocks are cancelled with sign = -1, so every swap needs its own sorting key.
+-- Tables created before were MergeTree, where rolled back rows are deleted instead.
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+PARTITION BY toYYYYMM(timestamp)
+ORDER BY (timestamp, block_number, transaction_index, instruction_address);
+
+-- Add trade amounts and reserves to tables created before they were tracked
+ALTER TABLE {{table:solana_pumpfun_bonding_curve_swaps}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS sol_amount UInt64,
+    ADD COLUMN IF NOT EXISTS token_amount UInt64,
+    ADD COLUMN IF NOT EXISTS virtual_sol_reserves UInt64,
+    ADD COLUMN IF NOT EXISTS virtual_token_reserves UInt64,
+    ADD COLUMN IF NOT EXISTS real_sol_reserves UInt64,
+    ADD COLUMN IF NOT EXISTS real_token_reserves UInt64,
+    ADD COLUMN IF NOT EXISTS event_timestamp DateTime,
+    ADD COLUMN IF NOT EXISTS instruction_address Array (UInt16);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS {{table:solana_pumpfun_token_candles}} {{on_cluster}}
+ENGINE {{replicated}}AggregatingMergeTree()
+ORDER BY (timestamp, base_token, quote_token)
+AS
+SELECT toStartOfSecond(toDateTime64(timestamp, 3)) AS timestamp,
+    base_token,
+    quote_token,
+    countState() as total_swaps,
+    uniqState(user) as unique_users,
+    argMinState(token_price, ps.timestamp) AS open,
+    maxState(token_price) AS high,
+    minState(token_price) AS low,
+    argMaxState(token_price, ps.timestamp) AS close
+FROM {{table:solana_pumpfun_bonding_curve_swaps}} ps
+-- Cancelling rows of rolled back swaps are not trades
+WHERE sign > 0
+GROUP BY timestamp, base_token, quote_token;
\ No newline at end of file
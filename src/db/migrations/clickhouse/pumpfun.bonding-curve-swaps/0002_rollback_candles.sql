@@ -0,0 +1,66 @@
+-- Candle states can't be taken back by cancelling rows, as open, high, low, close and unique users don't
+-- aggregate with sign. Candles are now kept per block in a table written by the view, so rolled back blocks
+-- are deleted from it like from other tables. Queries already merge states with GROUP BY and are unchanged.
+-- Every statement can be run again after a failure, candles are rebuilt from the swaps by the last one.
+DROP TABLE IF EXISTS {{table:solana_pumpfun_token_candles_mv}} {{on_cluster}};
+
+-- Also drops the materialized view of earlier versions along with its data
+DROP TABLE IF EXISTS {{table:solana_pumpfun_token_candles}} {{on_cluster}};
+
+CREATE TABLE {{table:solana_pumpfun_token_candles}} {{on_cluster}}
+(
+    timestamp       DateTime64(3),
+    base_token      String,
+    quote_token     String,
+    block_number    UInt32,
+    total_swaps     AggregateFunction(count),
+    unique_users    AggregateFunction(uniq, String),
+    open            AggregateFunction(argMin, Float64, DateTime),
+    high            AggregateFunction(max, Float64),
+    low             AggregateFunction(min, Float64),
+    close           AggregateFunction(argMax, Float64, DateTime)
+) ENGINE = {{replicated}}AggregatingMergeTree()
+ORDER BY (timestamp, base_token, quote_token, block_number);
+
+CREATE MATERIALIZED VIEW {{table:solana_pumpfun_token_candles_mv}} {{on_cluster}}
+TO {{table:solana_pumpfun_token_candles}}
+AS
+SELECT toStartOfSecond(toDateTime64(ps.timestamp, 3)) AS timestamp,
+    base_token,
+    quote_token,
+    block_number,
+    countState() as total_swaps,
+    uniqState(user) as unique_users,
+    argMinState(token_price, ps.timestamp) AS open,
+    maxState(token_price) AS high,
+    minState(token_price) AS low,
+    argMaxState(token_price, ps.timestamp) AS close
+FROM {{table:solana_pumpfun_bonding_curve_swaps}} ps
+-- Cancelling rows of rolled back swaps are not trades
+WHERE sign > 0
+GROUP BY timestamp, base_token, quote_token, block_number;
+
+-- Swaps are collapsed by hand, as FINAL is not supported by tables created as MergeTree
+INSERT INTO {{table:solana_pumpfun_token_candles}}
+SELECT toStartOfSecond(toDateTime64(ps.timestamp, 3)) AS timestamp,
+    base_token,
+    quote_token,
+    block_number,
+    countState() as total_swaps,
+    uniqState(user) as unique_users,
+    argMinState(token_price, ps.timestamp) AS open,
+    maxState(token_price) AS high,
+    minState(token_price) AS low,
+    argMaxState(token_price, ps.timestamp) AS close
+FROM (
+    SELECT timestamp,
+        block_number,
+        argMax(base_token, sign) AS base_token,
+        argMax(quote_token, sign) AS quote_token,
+        argMax(user, sign) AS user,
+        argMax(token_price, sign) AS token_price
+    FROM {{table:solana_pumpfun_bonding_curve_swaps}}
+    GROUP BY timestamp, block_number, transaction_index, instruction_address
+    HAVING sum(sign) > 0
+) ps
+GROUP BY timestamp, base_token, quote_token, block_number;
@@ -0,0 +1,56 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_graduations}} {{on_cluster}}
+(
+    timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
+    mint                         String,
+    bonding_curve                String,
+    user                         String,
+    -- Bonding curve reserves after the trade that completed it
+    virtual_sol_reserves         UInt64,
+    virtual_token_reserves       UInt64,
+    real_sol_reserves            UInt64,
+    real_token_reserves          UInt64,
+    block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index            UInt16,
+    instruction_address          Array (UInt16),
+    transaction_hash             String
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (mint);
+
+-- Pools created on the AMMs graduated tokens are migrated to
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_migration_pools}} {{on_cluster}}
+(
+    timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
+    dex                          LowCardinality(String),
+    pool_address                 String,
+    token_a                      String,
+    token_b                      String,
+    creator                      String,
+    block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index            UInt16,
+    instruction_address          Array (UInt16),
+    transaction_hash             String,
+
+    INDEX token_a_idx token_a TYPE bloom_filter GRANULARITY 1,
+    INDEX token_b_idx token_b TYPE bloom_filter GRANULARITY 1
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (pool_address);
+
+-- Graduated tokens with the first pool created for them at or after the graduation
+CREATE VIEW IF NOT EXISTS {{table:solana_pumpfun_graduation_pools}} {{on_cluster}} AS
+SELECT
+    g.mint AS mint,
+    any(g.timestamp) AS graduation_time,
+    any(g.block_number) AS graduation_block_number,
+    argMin(p.dex, (p.block_number, p.transaction_index)) AS pool_dex,
+    argMin(p.pool_address, (p.block_number, p.transaction_index)) AS pool_address,
+    argMin(p.timestamp, (p.block_number, p.transaction_index)) AS pool_creation_time,
+    argMin(p.block_number, (p.block_number, p.transaction_index)) AS pool_block_number,
+    argMin(p.transaction_hash, (p.block_number, p.transaction_index)) AS pool_transaction_hash
+FROM {{table:solana_pumpfun_graduations}} AS g FINAL
+INNER JOIN (
+    SELECT mint, dex, pool_address, timestamp, block_number, transaction_index, transaction_hash
+    FROM {{table:solana_pumpfun_migration_pools}} FINAL
+    ARRAY JOIN [token_a, token_b] AS mint
+) AS p ON p.mint = g.mint
+WHERE (p.block_number, p.transaction_index) >= (g.block_number, g.transaction_index)
+GROUP BY g.mint;
@@ -0,0 +1,42 @@
+-- Create the main table for pumpfun tokens
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_tokens}} {{on_cluster}}
+(
+    name String,
+    symbol String,
+    address String,
+    metadata_uri String,
+    creation_time DateTime CODEC (DoubleDelta, ZSTD),
+    creator String,
+    bonding_curve String,
+    block_number UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_hash String,
+    instruction_address Array (UInt16),
+
+    INDEX creator_idx creator TYPE bloom_filter GRANULARITY 1
+)
+ENGINE = {{replicated}}MergeTree()
+PARTITION BY toYYYYMM(creation_time)
+ORDER BY (creation_time, symbol);
+
+-- Add creation details to tables created before they were tracked
+ALTER TABLE {{table:solana_pumpfun_tokens}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS creator String,
+    ADD COLUMN IF NOT EXISTS bonding_curve String,
+    ADD COLUMN IF NOT EXISTS block_number UInt32 CODEC (DoubleDelta, ZSTD),
+    ADD COLUMN IF NOT EXISTS transaction_hash String,
+    ADD COLUMN IF NOT EXISTS instruction_address Array (UInt16),
+    ADD INDEX IF NOT EXISTS creator_idx creator TYPE bloom_filter GRANULARITY 1;
+
+-- Create materialized view for daily token creation counts
+CREATE MATERIALIZED VIEW IF NOT EXISTS {{table:solana_pumpfun_tokens_daily}} {{on_cluster}}
+ENGINE = {{replicated}}AggregatingMergeTree()
+PARTITION BY toYYYYMM(creation_time)
+ORDER BY (creation_time)
+AS
+SELECT
+    toStartOfDay(creation_time) as creation_time,
+    countState() as total_tokens,
+    uniqState(symbol) as unique_symbols
+FROM {{table:solana_pumpfun_tokens}}
+GROUP BY creation_time;
+
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_raydium_cpmm_lp_changes}} {{on_cluster}}
+(
+    timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
+    event_type                   Enum8('deposit' = 1, 'withdraw' = 2),
+    account                      String,
+    pool_address                 String,
+    lp_mint                      String,
+    lp_amount                    UInt64,
+    token_0                      String,
+    token_0_decimals             UInt8,
+    token_0_amount               UInt64,
+    token_1                      String,
+    token_1_decimals             UInt8,
+    token_1_amount               UInt64,
+    -- Raw reserves and LP supply around the change, used to reconstruct pool TVL over time
+    token_0_reserve_before       UInt64,
+    token_1_reserve_before       UInt64,
+    token_0_reserve_after        UInt64,
+    token_1_reserve_after        UInt64,
+    lp_supply_before             UInt64,
+    lp_supply_after              UInt64,
+    block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index            UInt16,
+    instruction_address          Array (UInt16),
+    transaction_hash             String,
+    sign                         Int8,
+
+    INDEX pool_idx pool_address TYPE bloom_filter GRANULARITY 1
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+      PARTITION BY toYYYYMM(timestamp)
+      ORDER BY (block_number, transaction_index, instruction_address);
@@ -0,0 +1,56 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_swaps_raw}} {{on_cluster}}
+(
+    timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
+    dex                          LowCardinality(String),
+    token_a                      String,
+    token_b                      String,
+    amount_a                     Float64,
+    amount_b                     Float64,
+    account                      String,
+    block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index            UInt16,
+    instruction_address          Array (UInt16),
+    transaction_hash             String,
+    slippage                     Float64,
+    pool_token_a_reserve         Float64,
+    pool_token_b_reserve         Float64,
+    sign                         Int8,
+    pool_address                 String,
+    -- Multi-hop swaps produce one row per hop sharing the same route id
+    route_id                     String,
+    route_hop                    UInt8,
+    intermediate_token           String,
+    -- Pool fee in the input token, NULL if the DEX doesn't report it
+    fee_token                    String,
+    fee_amount                   Nullable(Float64),
+    fee_rate                     Nullable(Float64),
+    -- Amounts after Token-2022 transfer fees, the same as amount_a and amount_b for other mints
+    net_amount_a                 Float64,
+    net_amount_b                 Float64,
+
+    -- Secondary indexes
+    INDEX idx_account_timestamp (timestamp, account) TYPE minmax GRANULARITY 1,
+    INDEX idx_account (account) TYPE bloom_filter(0.01) GRANULARITY 1,
+    INDEX pool_idx pool_address TYPE bloom_filter GRANULARITY 1,
+    INDEX amount_a_idx amount_a TYPE minmax GRANULARITY 4
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+      PARTITION BY toYYYYMM(timestamp) -- DATA WILL BE SPLIT BY MONTH
+      -- Hops of a route share the instruction, and collapsing needs a unique key per swap
+      ORDER BY (block_number, transaction_index, instruction_address, route_hop);
+
+-- Add route columns to tables created before multi-hop swaps were supported
+ALTER TABLE {{table:solana_swaps_raw}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS route_id String,
+    ADD COLUMN IF NOT EXISTS route_hop UInt8,
+    ADD COLUMN IF NOT EXISTS intermediate_token String;
+
+-- Add fee columns to tables created before swap fees were tracked
+ALTER TABLE {{table:solana_swaps_raw}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS fee_token String,
+    ADD COLUMN IF NOT EXISTS fee_amount Nullable(Float64),
+    ADD COLUMN IF NOT EXISTS fee_rate Nullable(Float64);
+
+-- Add net amounts to tables created before Token-2022 transfer fees were tracked
+ALTER TABLE {{table:solana_swaps_raw}} {{on_cluster}}
+    ADD COLUMN IF NOT EXISTS net_amount_a Float64,
+    ADD COLUMN IF NOT EXISTS net_amount_b Float64;
@@ -0,0 +1,62 @@
+-- Tables created before multi-hop swaps were supported got route_hop as a plain column, so both hops of
+-- a two-hop route share a sorting key and one of them is collapsed away. The sorting key can't be
+-- extended with an existing column, so the table is rebuilt with route_hop in the key.
+-- Hops already collapsed by merges before this migration can't be recovered, re-index their blocks.
+-- Every statement can be run again after a failure, the rebuild starts over from a fresh copy.
+DROP TABLE IF EXISTS {{table:solana_swaps_raw_rebuild}} {{on_cluster}};
+
+CREATE TABLE {{table:solana_swaps_raw_rebuild}} {{on_cluster}}
+(
+    timestamp                    DateTime CODEC (DoubleDelta, ZSTD),
+    dex                          LowCardinality(String),
+    token_a                      String,
+    token_b                      String,
+    amount_a                     Float64,
+    amount_b                     Float64,
+    account                      String,
+    block_number                 UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index            UInt16,
+    instruction_address          Array (UInt16),
+    transaction_hash             String,
+    slippage                     Float64,
+    pool_token_a_reserve         Float64,
+    pool_token_b_reserve         Float64,
+    sign                         Int8,
+    pool_address                 String,
+    -- Multi-hop swaps produce one row per hop sharing the same route id
+    route_id                     String,
+    route_hop                    UInt8,
+    intermediate_token           String,
+    -- Pool fee in the input token, NULL if the DEX doesn't report it
+    fee_token                    String,
+    fee_amount                   Nullable(Float64),
+    fee_rate                     Nullable(Float64),
+    -- Amounts after Token-2022 transfer fees, the same as amount_a and amount_b for other mints
+    net_amount_a                 Float64,
+    net_amount_b                 Float64,
+
+    -- Secondary indexes
+    INDEX idx_account_timestamp (timestamp, account) TYPE minmax GRANULARITY 1,
+    INDEX idx_account (account) TYPE bloom_filter(0.01) GRANULARITY 1,
+    INDEX pool_idx pool_address TYPE bloom_filter GRANULARITY 1,
+    INDEX amount_a_idx amount_a TYPE minmax GRANULARITY 4
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+      PARTITION BY toYYYYMM(timestamp) -- DATA WILL BE SPLIT BY MONTH
+      -- Hops of a route share the instruction, and collapsing needs a unique key per swap
+      ORDER BY (block_number, transaction_index, instruction_address, route_hop);
+
+-- Columns are listed as tables altered by earlier versions have them in a different order
+INSERT INTO {{table:solana_swaps_raw_rebuild}}
+    (timestamp, dex, token_a, token_b, amount_a, amount_b, account, block_number, transaction_index,
+     instruction_address, transaction_hash, slippage, pool_token_a_reserve, pool_token_b_reserve, sign,
+     pool_address, route_id, route_hop, intermediate_token, fee_token, fee_amount, fee_rate,
+     net_amount_a, net_amount_b)
+SELECT timestamp, dex, token_a, token_b, amount_a, amount_b, account, block_number, transaction_index,
+       instruction_address, transaction_hash, slippage, pool_token_a_reserve, pool_token_b_reserve, sign,
+       pool_address, route_id, route_hop, intermediate_token, fee_token, fee_amount, fee_rate,
+       net_amount_a, net_amount_b
+FROM {{table:solana_swaps_raw}};
+
+EXCHANGE TABLES {{table:solana_swaps_raw}} AND {{table:solana_swaps_raw_rebuild}} {{on_cluster}};
+
+DROP TABLE IF EXISTS {{table:solana_swaps_raw_rebuild}} {{on_cluster}};
@@ -0,0 +1,6 @@
+-- Net amounts are NULL when the Token-2022 transfer fee is neither reported by the swap nor known from the
+-- transfer fee config of the mint, instead of a fee guessed from balance changes.
+-- Rows written before keep their net amounts, re-index their blocks to replace guessed ones.
+ALTER TABLE {{table:solana_swaps_raw}} {{on_cluster}}
+    MODIFY COLUMN net_amount_a Nullable(Float64),
+    MODIFY COLUMN net_amount_b Nullable(Float64);
@@ -0,0 +1,11 @@
+-- Cursors of the pipes kept by ClickhouseState, one row per pipe stream id. The state creates the table
+-- itself if it's missing, but without ON CLUSTER and with a plain engine, so it's created here first.
+-- Tables created by the state before are kept as they are.
+CREATE TABLE IF NOT EXISTS {{table:solana_sync_status}} {{on_cluster}}
+(
+    id          String,
+    initial     String,
+    offset      String,
+    timestamp   DateTime64(3) DEFAULT now64(3)
+) ENGINE = {{replicated}}ReplacingMergeTree(timestamp)
+      ORDER BY (id);
@@ -0,0 +1,22 @@
+-- Latest configuration of every extension of Token-2022 mints, fields of other extensions are NULL
+CREATE TABLE IF NOT EXISTS {{table:solana_token_2022_mint_extensions}} {{on_cluster}}
+(
+    timestamp                 DateTime CODEC (DoubleDelta, ZSTD),
+    mint                      String,
+    extension                 Enum8('transfer_fee' = 1, 'interest_bearing' = 2, 'transfer_hook' = 3, 'permanent_delegate' = 4, 'metadata_pointer' = 5),
+    event_type                Enum8('initialize' = 1, 'update' = 2),
+    authority                 String,
+    -- A new transfer fee only applies from the second epoch after it's set
+    transfer_fee_basis_points Nullable(UInt16),
+    maximum_fee               Nullable(UInt64),
+    rate                      Nullable(Int16),
+    transfer_hook_program_id  Nullable(String),
+    permanent_delegate        Nullable(String),
+    metadata_address          Nullable(String),
+    block_number              UInt32,
+    transaction_index         UInt16,
+    instruction_address       Array (UInt16),
+    transaction_hash          String
+-- Not partitioned by time, as versions are only replaced within a partition
+) ENGINE = {{replicated}}ReplacingMergeTree()
+      ORDER BY (mint, extension);
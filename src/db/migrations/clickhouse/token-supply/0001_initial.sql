@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_token_supply_events}} {{on_cluster}}
+(
+    timestamp           DateTime CODEC (DoubleDelta, ZSTD),
+    event_type          Enum8('initialize_mint' = 1, 'mint' = 2, 'burn' = 3, 'set_authority' = 4),
+    program             Enum8('spl_token' = 1, 'token_2022' = 2),
+    mint                String,
+    -- Zero for authority changes, which don't reference a token account
+    decimals            UInt8,
+    amount              UInt64,
+    account             String,
+    authority           String,
+    -- Authority set by initialize_mint and set_authority events, new_authority is empty when it's removed
+    authority_type      LowCardinality(String),
+    new_authority       String,
+    freeze_authority    String,
+    block_number        UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index   UInt16,
+    instruction_address Array (UInt16),
+    transaction_hash    String,
+    sign                Int8,
+
+    INDEX mint_idx mint TYPE bloom_filter GRANULARITY 1
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+      PARTITION BY toYYYYMM(timestamp)
+      ORDER BY (block_number, transaction_index, instruction_address);
+
+-- Running supply per mint, only the circulating supply if the mint is indexed since its initialization
+CREATE MATERIALIZED VIEW IF NOT EXISTS {{table:solana_token_supply}} {{on_cluster}}
+ENGINE = {{replicated}}AggregatingMergeTree()
+ORDER BY (mint)
+AS
+SELECT
+    mint,
+    maxState(decimals) as decimals,
+    sumState(toInt128(amount) * sign * if(event_type = 'burn', -1, 1)) as supply,
+    sumState(toInt128(amount) * sign * (event_type = 'mint')) as minted,
+    sumState(toInt128(amount) * sign * (event_type = 'burn')) as burned,
+    maxState(block_number) as last_block_number
+FROM {{table:solana_token_supply_events}}
+WHERE event_type IN ('mint', 'burn')
+GROUP BY mint;
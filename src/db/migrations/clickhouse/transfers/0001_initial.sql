@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_token_transfers}} {{on_cluster}}
+(
+    timestamp           DateTime CODEC (DoubleDelta, ZSTD),
+    program             Enum8('spl_token' = 1, 'token_2022' = 2),
+    mint                String,
+    decimals            UInt8,
+    amount              UInt64,
+    source              String,
+    -- Owners are resolved from the transaction token balances, empty if the balance is not known
+    source_owner        String,
+    destination         String,
+    destination_owner   String,
+    authority           String,
+    block_number        UInt32 CODEC (DoubleDelta, ZSTD),
+    transaction_index   UInt16,
+    instruction_address Array (UInt16),
+    transaction_hash    String,
+    sign                Int8,
+
+    INDEX mint_idx mint TYPE bloom_filter GRANULARITY 1,
+    INDEX source_owner_idx source_owner TYPE bloom_filter GRANULARITY 1,
+    INDEX destination_owner_idx destination_owner TYPE bloom_filter GRANULARITY 1
+) ENGINE = {{replicated}}CollapsingMergeTree(sign)
+      PARTITION BY toYYYYMM(timestamp)
+      ORDER BY (block_number, transaction_index, instruction_address);
@@ -0,0 +1,17 @@
+-- Latest balance of every token account, closed accounts are kept with a zero amount
+CREATE TABLE IF NOT EXISTS {{table:solana_token_balances}}
+(
+    timestamp                    timestamptz NOT NULL,
+    owner                        text NOT NULL,
+    mint                         text NOT NULL,
+    account                      text NOT NULL,
+    decimals                     smallint,
+    amount                       numeric(20),
+    block_number                 bigint NOT NULL,
+    transaction_index            integer,
+    transaction_hash             text,
+
+    PRIMARY KEY (owner, mint, account)
+);
+
+CREATE INDEX ON {{table:solana_token_balances}} (mint);
@@ -0,0 +1,42 @@
+-- Tables created before kept only the latest balance keyed by owner, so an account moved to another owner kept
+-- a stale row under the previous one, and rolling back a block deleted the only version of its accounts.
+-- Balances are now kept as versions per account, rollbacks delete the versions of orphaned blocks, and
+-- solana_token_balances is a view of the latest version of every account.
+CREATE TABLE IF NOT EXISTS {{table:solana_token_balance_history}}
+(
+    timestamp                    timestamptz NOT NULL,
+    owner                        text NOT NULL,
+    mint                         text NOT NULL,
+    account                      text NOT NULL,
+    decimals                     smallint,
+    -- Post balance, zero once the token account is closed
+    amount                       numeric(20),
+    block_number                 bigint NOT NULL,
+    transaction_index            integer,
+    transaction_hash             text,
+
+    -- Only the last balance of an account in a block is written
+    PRIMARY KEY (account, block_number)
+);
+
+CREATE INDEX ON {{table:solana_token_balance_history}} (owner);
+CREATE INDEX ON {{table:solana_token_balance_history}} (mint);
+
+-- The latest balances already indexed become the first versions of their accounts. Stale rows of accounts
+-- moved to another owner are dropped, as only the version of the highest block is kept per account.
+INSERT INTO {{table:solana_token_balance_history}}
+    (timestamp, owner, mint, account, decimals, amount, block_number, transaction_index, transaction_hash)
+SELECT DISTINCT ON (account)
+    timestamp, owner, mint, account, decimals, amount, block_number, transaction_index, transaction_hash
+FROM {{table:solana_token_balances}}
+ORDER BY account, block_number DESC
+ON CONFLICT DO NOTHING;
+
+DROP TABLE {{table:solana_token_balances}};
+
+-- Latest version of every token account, closed accounts are kept with a zero amount
+CREATE VIEW {{table:solana_token_balances}} AS
+SELECT DISTINCT ON (account)
+    timestamp, owner, mint, account, decimals, amount, block_number, transaction_index, transaction_hash
+FROM {{table:solana_token_balance_history}}
+ORDER BY account, block_number DESC;
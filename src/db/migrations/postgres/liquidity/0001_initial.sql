@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_liquidity_changes}}
+(
+    timestamp                    timestamptz NOT NULL,
+    dex                          text,
+    action                       text,
+    account                      text,
+    pool_address                 text,
+    position                     text,
+    position_mint                text,
+    tick_lower                   integer,
+    tick_upper                   integer,
+    liquidity_delta              numeric(39),
+    token_a                      text,
+    token_b                      text,
+    amount_a                     double precision,
+    amount_b                     double precision,
+    block_number                 bigint NOT NULL,
+    transaction_index            integer NOT NULL,
+    instruction_address          integer[] NOT NULL,
+    transaction_hash             text,
+    sign                         smallint,
+
+    PRIMARY KEY (block_number, transaction_index, instruction_address)
+);
+
+CREATE INDEX ON {{table:solana_liquidity_changes}} (pool_address);
+CREATE INDEX ON {{table:solana_liquidity_changes}} (position);
@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pools}}
+(
+    timestamp                    timestamptz NOT NULL,
+    dex                          text,
+    pool_address                 text PRIMARY KEY,
+    token_a                      text,
+    token_b                      text,
+    token_a_vault                text,
+    token_b_vault                text,
+    -- Fee tier, AMM config or preset parameters account, depending on the DEX
+    fee_config                   text,
+    tick_spacing                 integer,
+    bin_step                     integer,
+    creator                      text,
+    block_number                 bigint NOT NULL,
+    transaction_hash             text
+);
+
+CREATE INDEX ON {{table:solana_pools}} (token_a);
+CREATE INDEX ON {{table:solana_pools}} (token_b);
+
+-- Daily pool creation statistics
+CREATE OR REPLACE VIEW {{table:solana_pools_daily}} AS
+SELECT
+    date_trunc('day', timestamp) AS timestamp,
+    dex,
+    count(*) AS total_pools,
+    count(DISTINCT creator) AS unique_creators
+FROM {{table:solana_pools}}
+GROUP BY 1, 2;
@@ -0,0 +1,3 @@
+-- The column holds the address of the fee tier, AMM config or preset parameters account, not a fee rate
+ALTER TABLE {{table:solana_pools}}
+    RENAME COLUMN fee_config TO fee_config_account;
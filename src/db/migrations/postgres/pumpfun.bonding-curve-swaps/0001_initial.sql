@@ -0,0 +1,49 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_bonding_curve_swaps}}
+(
+    timestamp                    timestamptz NOT NULL,
+    event_type                   text,
+    base_token                   text,
+    base_token_decimals          smallint,
+    quote_token                  text,
+    quote_token_decimals         smallint,
+    "user"                       text,
+    -- Raw amounts and bonding curve reserves after the trade, from the TradeEvent
+    sol_amount                   numeric(20),
+    token_amount                 numeric(20),
+    virtual_sol_reserves         numeric(20),
+    virtual_token_reserves       numeric(20),
+    real_sol_reserves            numeric(20),
+    real_token_reserves          numeric(20),
+    event_timestamp              timestamptz,
+    block_number                 bigint NOT NULL,
+    block_hash                   text,
+    transaction_index            bigint NOT NULL,
+    transaction_hash             text,
+    instruction_address          integer[] NOT NULL,
+    raw_token_price              numeric(39),
+    -- We used 10^18 as the scaling factor for the token price to preserve precision.
+    -- We also adjust the value to the token decimal precision.
+    token_price                  double precision GENERATED ALWAYS AS (
+        (raw_token_price / 1e18 / power(10::numeric, quote_token_decimals - base_token_decimals))::double precision
+    ) STORED,
+    sign                         smallint,
+
+    PRIMARY KEY (block_number, transaction_index, instruction_address)
+);
+
+CREATE INDEX ON {{table:solana_pumpfun_bonding_curve_swaps}} (base_token, timestamp);
+
+-- Per-second candles of every token
+CREATE OR REPLACE VIEW {{table:solana_pumpfun_token_candles}} AS
+SELECT
+    date_trunc('second', timestamp) AS timestamp,
+    base_token,
+    quote_token,
+    count(*) AS total_swaps,
+    count(DISTINCT "user") AS unique_users,
+    (array_agg(token_price ORDER BY timestamp, block_number, transaction_index, instruction_address))[1] AS open,
+    max(token_price) AS high,
+    min(token_price) AS low,
+    (array_agg(token_price ORDER BY timestamp DESC, block_number DESC, transaction_index DESC, instruction_address DESC))[1] AS close
+FROM {{table:solana_pumpfun_bonding_curve_swaps}}
+GROUP BY 1, 2, 3;
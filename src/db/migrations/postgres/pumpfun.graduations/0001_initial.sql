@@ -0,0 +1,50 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_graduations}}
+(
+    timestamp                    timestamptz NOT NULL,
+    mint                         text PRIMARY KEY,
+    bonding_curve                text,
+    "user"                       text,
+    -- Bonding curve reserves after the trade that completed it
+    virtual_sol_reserves         numeric(20),
+    virtual_token_reserves       numeric(20),
+    real_sol_reserves            numeric(20),
+    real_token_reserves          numeric(20),
+    block_number                 bigint NOT NULL,
+    transaction_index            integer,
+    instruction_address          integer[],
+    transaction_hash             text
+);
+
+-- Pools created on the AMMs graduated tokens are migrated to
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_migration_pools}}
+(
+    timestamp                    timestamptz NOT NULL,
+    dex                          text,
+    pool_address                 text PRIMARY KEY,
+    token_a                      text,
+    token_b                      text,
+    creator                      text,
+    block_number                 bigint NOT NULL,
+    transaction_index            integer,
+    instruction_address          integer[],
+    transaction_hash             text
+);
+
+CREATE INDEX ON {{table:solana_pumpfun_migration_pools}} (token_a);
+CREATE INDEX ON {{table:solana_pumpfun_migration_pools}} (token_b);
+
+-- Graduated tokens with the first pool created for them at or after the graduation
+CREATE OR REPLACE VIEW {{table:solana_pumpfun_graduation_pools}} AS
+SELECT DISTINCT ON (g.mint)
+    g.mint AS mint,
+    g.timestamp AS graduation_time,
+    g.block_number AS graduation_block_number,
+    p.dex AS pool_dex,
+    p.pool_address AS pool_address,
+    p.timestamp AS pool_creation_time,
+    p.block_number AS pool_block_number,
+    p.transaction_hash AS pool_transaction_hash
+FROM {{table:solana_pumpfun_graduations}} AS g
+INNER JOIN {{table:solana_pumpfun_migration_pools}} AS p ON g.mint IN (p.token_a, p.token_b)
+WHERE (p.block_number, p.transaction_index) >= (g.block_number, g.transaction_index)
+ORDER BY g.mint, p.block_number, p.transaction_index;
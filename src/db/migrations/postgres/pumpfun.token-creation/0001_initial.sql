@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_pumpfun_tokens}}
+(
+    name                         text,
+    symbol                       text,
+    address                      text PRIMARY KEY,
+    metadata_uri                 text,
+    creation_time                timestamptz NOT NULL,
+    creator                      text,
+    bonding_curve                text,
+    block_number                 bigint NOT NULL,
+    transaction_hash             text,
+    instruction_address          integer[]
+);
+
+CREATE INDEX ON {{table:solana_pumpfun_tokens}} (creation_time);
+CREATE INDEX ON {{table:solana_pumpfun_tokens}} (creator);
+
+-- Daily token creation counts
+CREATE OR REPLACE VIEW {{table:solana_pumpfun_tokens_daily}} AS
+SELECT
+    date_trunc('day', creation_time) AS creation_time,
+    count(*) AS total_tokens,
+    count(DISTINCT symbol) AS unique_symbols
+FROM {{table:solana_pumpfun_tokens}}
+GROUP BY 1;
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_raydium_cpmm_lp_changes}}
+(
+    timestamp                    timestamptz NOT NULL,
+    event_type                   text,
+    account                      text,
+    pool_address                 text,
+    lp_mint                      text,
+    lp_amount                    numeric(20),
+    token_0                      text,
+    token_0_decimals             smallint,
+    token_0_amount               numeric(20),
+    token_1                      text,
+    token_1_decimals             smallint,
+    token_1_amount               numeric(20),
+    -- Raw reserves and LP supply around the change, used to reconstruct pool TVL over time
+    token_0_reserve_before       numeric(20),
+    token_1_reserve_before       numeric(20),
+    token_0_reserve_after        numeric(20),
+    token_1_reserve_after        numeric(20),
+    lp_supply_before             numeric(20),
+    lp_supply_after              numeric(20),
+    block_number                 bigint NOT NULL,
+    transaction_index            integer NOT NULL,
+    instruction_address          integer[] NOT NULL,
+    transaction_hash             text,
+    sign                         smallint,
+
+    PRIMARY KEY (block_number, transaction_index, instruction_address)
+);
+
+CREATE INDEX ON {{table:solana_raydium_cpmm_lp_changes}} (pool_address);
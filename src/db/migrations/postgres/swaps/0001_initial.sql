@@ -0,0 +1,37 @@
+-- Rows of orphaned blocks are deleted, so there is no sign column to collapse them
+CREATE TABLE IF NOT EXISTS {{table:solana_swaps_raw}}
+(
+    timestamp                    timestamptz NOT NULL,
+    dex                          text,
+    token_a                      text,
+    token_b                      text,
+    amount_a                     double precision,
+    amount_b                     double precision,
+    account                      text,
+    block_number                 bigint NOT NULL,
+    transaction_index            integer NOT NULL,
+    instruction_address          integer[] NOT NULL,
+    transaction_hash             text,
+    slippage                     double precision,
+    pool_token_a_reserve         double precision,
+    pool_token_b_reserve         double precision,
+    sign                         smallint,
+    pool_address                 text,
+    -- Multi-hop swaps produce one row per hop sharing the same route id
+    route_id                     text,
+    route_hop                    smallint NOT NULL,
+    intermediate_token           text,
+    -- Pool fee in the input token, NULL if the DEX doesn't report it
+    fee_token                    text,
+    fee_amount                   double precision,
+    fee_rate                     double precision,
+    -- Amounts after Token-2022 transfer fees, the same as amount_a and amount_b for other mints
+    net_amount_a                 double precision,
+    net_amount_b                 double precision,
+
+    PRIMARY KEY (block_number, transaction_index, instruction_address, route_hop)
+);
+
+CREATE INDEX ON {{table:solana_swaps_raw}} (account, timestamp);
+CREATE INDEX ON {{table:solana_swaps_raw}} (pool_address);
+CREATE INDEX ON {{table:solana_swaps_raw}} (timestamp);
@@ -0,0 +1,22 @@
+-- Latest configuration of every extension of Token-2022 mints, fields of other extensions are NULL
+CREATE TABLE IF NOT EXISTS {{table:solana_token_2022_mint_extensions}}
+(
+    timestamp                    timestamptz NOT NULL,
+    mint                         text NOT NULL,
+    extension                    text NOT NULL,
+    event_type                   text,
+    authority                    text,
+    -- A new transfer fee only applies from the second epoch after it's set
+    transfer_fee_basis_points    integer,
+    maximum_fee                  numeric(20),
+    rate                         smallint,
+    transfer_hook_program_id     text,
+    permanent_delegate           text,
+    metadata_address             text,
+    block_number                 bigint NOT NULL,
+    transaction_index            integer,
+    instruction_address          integer[],
+    transaction_hash             text,
+
+    PRIMARY KEY (mint, extension)
+);
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_token_supply_events}}
+(
+    timestamp                    timestamptz NOT NULL,
+    event_type                   text,
+    program                      text,
+    mint                         text,
+    -- Zero for authority changes, which don't reference a token account
+    decimals                     smallint,
+    amount                       numeric(20),
+    account                      text,
+    authority                    text,
+    -- Authority set by initialize_mint and set_authority events, new_authority is empty when it's removed
+    authority_type               text,
+    new_authority                text,
+    freeze_authority             text,
+    block_number                 bigint NOT NULL,
+    transaction_index            integer NOT NULL,
+    instruction_address          integer[] NOT NULL,
+    transaction_hash             text,
+    sign                         smallint,
+
+    PRIMARY KEY (block_number, transaction_index, instruction_address)
+);
+
+CREATE INDEX ON {{table:solana_token_supply_events}} (mint);
+
+-- Running supply per mint, only the circulating supply if the mint is indexed since its initialization
+CREATE OR REPLACE VIEW {{table:solana_token_supply}} AS
+SELECT
+    mint,
+    max(decimals) AS decimals,
+    sum(CASE WHEN event_type = 'burn' THEN -amount ELSE amount END) AS supply,
+    sum(CASE WHEN event_type = 'mint' THEN amount ELSE 0 END) AS minted,
+    sum(CASE WHEN event_type = 'burn' THEN amount ELSE 0 END) AS burned,
+    max(block_number) AS last_block_number
+FROM {{table:solana_token_supply_events}}
+WHERE event_type IN ('mint', 'burn')
+GROUP BY mint;
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS {{table:solana_token_transfers}}
+(
+    timestamp                    timestamptz NOT NULL,
+    program                      text,
+    mint                         text,
+    decimals                     smallint,
+    amount                       numeric(20),
+    source                       text,
+    -- Owners are resolved from the transaction token balances, empty if the balance is not known
+    source_owner                 text,
+    destination                  text,
+    destination_owner            text,
+    authority                    text,
+    block_number                 bigint NOT NULL,
+    transaction_index            integer NOT NULL,
+    instruction_address          integer[] NOT NULL,
+    transaction_hash             text,
+    sign                         smallint,
+
+    PRIMARY KEY (block_number, transaction_index, instruction_address)
+);
+
+CREATE INDEX ON {{table:solana_token_transfers}} (mint);
+CREATE INDEX ON {{table:solana_token_transfers}} (source_owner);
+CREATE INDEX ON {{table:solana_token_transfers}} (destination_owner);
@@ -0,0 +1,54 @@
+import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
+import { BlockRef } from '@sqd-pipes/core'
+import { logger } from '../utils'
+import { Schema, getTable } from './schema'
+
+/**
+ * Removes rows of blocks after `latest` from tables with `block_number` and `sign` columns.
+ * CollapsingMergeTree tables get a cancelling `sign = -1` copy of every row still visible with FINAL,
+ * so blocks rolled back before are not cancelled twice. Tables with other engines can't collapse rows,
+ * so they are deleted instead.
+ */
+export async function rollbackTables(
+  clickhouse: NodeClickHouseClient,
+  schema: Schema,
+  tables: string[],
+  latest: BlockRef,
+) {
+  const engines = await clickhouse
+    .query({
+      query:
+        'SELECT name, engine FROM system.tables WHERE database = {database:String} AND name IN {tables:Array(String)}',
+      query_params: { database: schema.database, tables: tables.map((t) => `${schema.tablePrefix}${t}`) },
+      format: 'JSONEachRow',
+    })
+    .then((res) => res.json<{ name: string; engine: string }>())
+
+  for (const { name, engine } of engines) {
+    const table = getTable(schema, name.slice(schema.tablePrefix.length))
+
+    logger.warn({
+      message: 'Rolling back orphaned blocks',
+      table,
+      block_number: latest.number,
+      block_hash: latest.hash,
+    })
+
+    if (engine.endsWith('CollapsingMergeTree')) {
+      await clickhouse.command({
+        query: `
+          INSERT INTO ${table}
+          SELECT * REPLACE (-1 AS sign)
+          FROM ${table} FINAL
+          WHERE block_number > {block:UInt32} AND sign = 1
+        `,
+        query_params: { block: latest.number },
+      })
+    } else {
+      await clickhouse.command({
+        query: `DELETE FROM ${table} WHERE block_number > {block:UInt32}`,
+        query_params: { block: latest.number },
+      })
+    }
+  }
+}
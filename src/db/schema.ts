@@ -0,0 +1,56 @@
+/**
+ * Where the tables of a pipe live. Several deployments can share one ClickHouse
+ * by using different databases or table prefixes.
+ */
+export interface Schema {
+  // The Postgres schema for the postgres sink
+  database: string
+  tablePrefix: string
+  // DDL is run ON CLUSTER with Replicated*MergeTree engines when set
+  cluster?: string
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)(?::(\w+))?\s*\}\}/g
+
+// Double quoted identifiers are valid in both ClickHouse and Postgres
+export function quoteIdentifier(identifier: string) {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
+
+export function getDatabase(schema: Schema) {
+  return quoteIdentifier(schema.database)
+}
+
+/**
+ * Fully qualified name of a table, e.g. "default"."staging_solana_swaps_raw"
+ */
+export function getTable(schema: Schema, name: string) {
+  return `${getDatabase(schema)}.${quoteIdentifier(`${schema.tablePrefix}${name}`)}`
+}
+
+export function getOnCluster(schema: Schema) {
+  return schema.cluster ? `ON CLUSTER ${quoteIdentifier(schema.cluster)}` : ''
+}
+
+/**
+ * Renders the placeholders of a DDL template:
+ * - `{{table:solana_swaps_raw}}` — the fully qualified table name
+ * - `{{on_cluster}}` — `ON CLUSTER <cluster>`, or nothing without a cluster
+ * - `{{replicated}}` — the `Replicated` engine prefix, e.g. `{{replicated}}MergeTree()`. The ZooKeeper path
+ *   and replica name are omitted, so the server `default_replica_path` and `default_replica_name` are used
+ */
+export function renderSql(schema: Schema, sql: string) {
+  return sql.replace(PLACEHOLDER, (placeholder, name: string, arg?: string) => {
+    switch (name) {
+      case 'table':
+        if (!arg) break
+        return getTable(schema, arg)
+      case 'on_cluster':
+        return getOnCluster(schema)
+      case 'replicated':
+        return schema.cluster ? 'Replicated' : ''
+    }
+
+    throw new Error(`Unknown SQL placeholder: ${placeholder}`)
+  })
+}
@@ -0,0 +1,45 @@
+import { BalancesPipeConfig, IndexerFunction, PipeConfig } from '../main'
+import { Sink } from '../sinks'
+import { SolanaTokenBalancesStream } from '../streams/balances'
+import { logger } from '../utils'
+
+export const balancesIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  const { owners, mints } = config as BalancesPipeConfig
+
+  const ds = new SolanaTokenBalancesStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    args: {
+      owners,
+      mints,
+    },
+    /**
+     * Balances are written as versions per account, so rolling back orphaned blocks makes the previous
+     * versions the latest ones again in the solana_token_balances view
+     */
+    state: sink.createState({ id: 'solana_token_balances', rollbackTables: ['solana_token_balance_history'] }),
+    logger,
+  })
+
+  for await (const balances of await ds.stream()) {
+    await sink.insert(
+      'solana_token_balance_history',
+      balances.map((b) => ({
+        timestamp: b.timestamp,
+        owner: b.owner,
+        mint: b.mint,
+        account: b.account,
+        decimals: b.decimals,
+        amount: b.amount.toString(),
+        block_number: b.block.number,
+        transaction_index: b.transaction.index,
+        transaction_hash: b.transaction.hash,
+      })),
+    )
+
+    await ds.ack()
+  }
+}
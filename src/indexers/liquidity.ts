@@ -0,0 +1,51 @@
+import { IndexerFunction, PipeConfig } from '../main'
+import { Sink } from '../sinks'
+import { SolanaLiquidityStream } from '../streams/liquidity'
+import { logger } from '../utils'
+
+export const liquidityIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  /**
+   * Create a stream to read liquidity changes of concentrated liquidity pools
+   * from 2 different DEXs:
+   * - Orca
+   * - Raydium
+   */
+  const ds = new SolanaLiquidityStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    state: sink.createState({ id: 'dex_liquidity' }),
+    logger,
+  })
+
+  for await (const changes of await ds.stream()) {
+    await sink.insert(
+      'solana_liquidity_changes',
+      changes.map((c) => ({
+        timestamp: c.timestamp,
+        dex: c.type,
+        action: c.action,
+        account: c.account,
+        pool_address: c.poolAddress,
+        position: c.position,
+        position_mint: c.positionMint ?? '',
+        tick_lower: c.tickLower,
+        tick_upper: c.tickUpper,
+        liquidity_delta: c.liquidityDelta.toString(),
+        token_a: c.tokenA.mint,
+        token_b: c.tokenB.mint,
+        amount_a: Number(c.tokenA.amount) / 10 ** c.tokenA.decimals,
+        amount_b: Number(c.tokenB.amount) / 10 ** c.tokenB.decimals,
+        block_number: c.block.number,
+        transaction_index: c.transaction.index,
+        instruction_address: c.instruction.address,
+        transaction_hash: c.transaction.hash,
+        sign: 1,
+      })),
+    )
+
+    await ds.ack()
+  }
+}
@@ -1,48 +1,124 @@
-import path from 'node:path'
-import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
-import { ClickhouseState } from '@sqd-pipes/core'
-import { ensureTables } from '../db/clickhouse'
 import { IndexerFunction, PipeConfig } from '../main'
-import { SolanaMetaplexStream } from '../streams/metaplex'
+import { ClickhouseSink, Sink } from '../sinks'
+import { SolanaCollectionVerification, SolanaMetaplexStream, SolanaTokenMetadata } from '../streams/metaplex'
 import { logger } from '../utils'
 
-export const metaplexIndexer: IndexerFunction = async (
-  portalUrl: string,
-  clickhouse: NodeClickHouseClient,
-  config: PipeConfig,
-) => {
+type MetaplexTokenState = {
+  account: string
+  mint: string
+  name: string
+  symbol: string
+  uri: string
+  update_authority: string
+  seller_fee_basis_points: number
+  creators: { address: string; verified: boolean; share: number }[]
+  token_standard: string
+  collection: string
+  is_mutable: boolean
+  primary_sale_happened: boolean
+}
+
+export const metaplexIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  // Token updates are applied on top of the previous state read back with ClickHouse SQL
+  if (!(sink instanceof ClickhouseSink)) {
+    throw new Error('The metaplex pipe only supports the clickhouse sink')
+  }
+
   const ds = new SolanaMetaplexStream({
     portal: `${portalUrl}/datasets/solana-mainnet`,
     blockRange: {
       from: config.fromBlock,
       to: config.toBlock,
     },
-    state: new ClickhouseState(clickhouse, {
-      table: 'solana_sync_status',
-      id: 'metaplex_metadata',
-    }),
+    state: sink.createState({ id: 'metaplex_metadata' }),
     logger,
   })
 
-  await ensureTables(clickhouse, path.join(__dirname, '../db/sql/metaplex.sql'))
-
-  for await (const mints of await ds.stream()) {
-    await clickhouse.insert({
-      table: 'solana_metaplex_tokens',
-      format: 'JSONEachRow',
-      values: mints.map((m) => ({
-        account: m.account,
-        mint: m.mint,
-        name: m.name,
-        symbol: m.symbol,
-        uri: m.uri,
-        is_mutable: m.isMutable,
+  for await (const events of await ds.stream()) {
+    const mints = events.filter((e): e is SolanaTokenMetadata => e.type !== 'collection_verification')
+    const verifications = events.filter((e): e is SolanaCollectionVerification => e.type === 'collection_verification')
+
+    /**
+     * Updates only carry the changed fields, so every row is written as a new version
+     * of the full token state, built on top of the previous one.
+     */
+    const states = await getTokenStates(
+      sink,
+      mints.filter((m) => m.type === 'update').map((m) => m.account),
+    )
+
+    const values = mints.map((m) => {
+      const state = applyChange(states.get(m.account), m)
+      states.set(m.account, state)
+
+      return {
+        ...state,
+        event_type: m.type,
         block_number: m.block.number,
         transaction_hash: m.transaction.hash,
+        transaction_index: m.transaction.index,
+        instruction_address: m.instruction.address,
         timestamp: m.block.timestamp,
-      })),
+      }
     })
 
+    if (values.length) {
+      await sink.insert('solana_metaplex_tokens', values)
+    }
+
+    if (verifications.length) {
+      await sink.insert(
+        'solana_metaplex_collection_items',
+        verifications.map((v) => ({
+          account: v.account,
+          collection_mint: v.collectionMint,
+          authority: v.authority,
+          verified: v.verified,
+          block_number: v.block.number,
+          transaction_hash: v.transaction.hash,
+          transaction_index: v.transaction.index,
+          instruction_address: v.instruction.address,
+          timestamp: v.block.timestamp,
+        })),
+      )
+    }
+
     await ds.ack()
   }
 }
+
+async function getTokenStates(sink: ClickhouseSink, accounts: string[]): Promise<Map<string, MetaplexTokenState>> {
+  if (!accounts.length) return new Map()
+
+  const res = await sink.clickhouse.query({
+    query: `SELECT account, mint, name, symbol, uri, update_authority, seller_fee_basis_points, creators,
+                   token_standard, collection, is_mutable, primary_sale_happened
+            FROM ${sink.table('solana_metaplex_tokens')}
+            WHERE account IN {accounts:Array(String)}
+            ORDER BY block_number DESC, transaction_index DESC, instruction_address DESC
+            LIMIT 1 BY account`,
+    query_params: { accounts: [...new Set(accounts)] },
+    format: 'JSONEachRow',
+  })
+  const rows = await res.json<MetaplexTokenState>()
+
+  return new Map(rows.map((r) => [r.account, r]))
+}
+
+function applyChange(state: MetaplexTokenState | undefined, m: SolanaTokenMetadata): MetaplexTokenState {
+  return {
+    account: m.account,
+    // Accounts created before the first indexed block have no known state to update
+    mint: m.mint ?? state?.mint ?? '',
+    name: m.name ?? state?.name ?? '',
+    symbol: m.symbol ?? state?.symbol ?? '',
+    uri: m.uri ?? state?.uri ?? '',
+    update_authority: m.updateAuthority ?? state?.update_authority ?? '',
+    seller_fee_basis_points: m.sellerFeeBasisPoints ?? state?.seller_fee_basis_points ?? 0,
+    creators: m.creators ?? state?.creators ?? [],
+    token_standard: m.tokenStandard ?? state?.token_standard ?? '',
+    collection: m.collection !== undefined ? (m.collection ?? '') : (state?.collection ?? ''),
+    is_mutable: m.isMutable ?? state?.is_mutable ?? true,
+    primary_sale_happened: m.primarySaleHappened ?? state?.primary_sale_happened ?? false,
+  }
+}
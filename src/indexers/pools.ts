@@ -0,0 +1,39 @@
+import { IndexerFunction, PipeConfig } from '../main'
+import { Sink } from '../sinks'
+import { SolanaPoolsStream } from '../streams/pools'
+import { logger } from '../utils'
+
+export const poolsIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  const ds = new SolanaPoolsStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    state: sink.createState({ id: 'dex_pools' }),
+    logger,
+  })
+
+  for await (const pools of await ds.stream()) {
+    await sink.insert(
+      'solana_pools',
+      pools.map((p) => ({
+        timestamp: p.timestamp,
+        dex: p.type,
+        pool_address: p.poolAddress,
+        token_a: p.tokenA,
+        token_b: p.tokenB,
+        token_a_vault: p.tokenAVault,
+        token_b_vault: p.tokenBVault,
+        fee_config_account: p.feeConfigAccount ?? '',
+        tick_spacing: p.tickSpacing,
+        bin_step: p.binStep,
+        creator: p.creator,
+        block_number: p.block.number,
+        transaction_hash: p.transaction.hash,
+      })),
+    )
+
+    await ds.ack()
+  }
+}
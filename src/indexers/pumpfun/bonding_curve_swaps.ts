@@ -1,14 +1,11 @@
-import path from 'node:path'
-import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
-import { ClickhouseState } from '@sqd-pipes/core'
 import { IndexerFunction, PipeConfig } from 'src/main'
-import { ensureTables } from '../../db/clickhouse'
+import { Sink } from '../../sinks'
 import { PumpfunBuysAndSellsStream } from '../../streams/pumpfun/bonding_curve_swaps'
 import { logger } from '../../utils/logger'
 
 export const pumpfunBondingCurveSwapsIndexer: IndexerFunction = async (
   portalUrl: string,
-  clickhouse: NodeClickHouseClient,
+  sink: Sink,
   config: PipeConfig,
 ) => {
   const ds = new PumpfunBuysAndSellsStream({
@@ -17,20 +14,18 @@ export const pumpfunBondingCurveSwapsIndexer: IndexerFunction = async (
       from: config.fromBlock,
       to: config.toBlock,
     },
-    state: new ClickhouseState(clickhouse, {
-      table: 'solana_sync_status',
+    state: sink.createState({
       id: 'solana_pumpfun_bonding_curve_swaps',
+      // Candles are a view in PostgreSQL, which is computed from the swaps and skipped
+      rollbackTables: ['solana_pumpfun_bonding_curve_swaps', 'solana_pumpfun_token_candles'],
     }),
     logger,
   })
 
-  await ensureTables(clickhouse, path.join(__dirname, '../../db/sql/pumpfun_bonding_curve_swaps.sql'))
-
   for await (const tokens of await ds.stream()) {
-    await clickhouse.insert({
-      table: 'solana_pumpfun_bonding_curve_swaps',
-      format: 'JSONEachRow',
-      values: tokens.map((t) => ({
+    await sink.insert(
+      'solana_pumpfun_bonding_curve_swaps',
+      tokens.map((t) => ({
         timestamp: t.timestamp,
         event_type: t.type,
         base_token: t.baseToken.mint,
@@ -38,14 +33,23 @@ export const pumpfunBondingCurveSwapsIndexer: IndexerFunction = async (
         quote_token: t.quoteToken.mint,
         quote_token_decimals: t.quoteToken.decimals,
         user: t.account,
-        raw_token_price: Number(t.tokenPrice),
+        sol_amount: t.quoteToken.amount.toString(),
+        token_amount: t.baseToken.amount.toString(),
+        virtual_sol_reserves: t.reserves.virtualSol.toString(),
+        virtual_token_reserves: t.reserves.virtualToken.toString(),
+        real_sol_reserves: t.reserves.realSol.toString(),
+        real_token_reserves: t.reserves.realToken.toString(),
+        event_timestamp: t.eventTimestamp,
+        // Passed as a string, as the scaled price doesn't fit into a double without losing precision
+        raw_token_price: t.tokenPrice.toString(),
         block_number: t.block.number,
         block_hash: t.block.hash,
         transaction_index: t.transaction.index,
         transaction_hash: t.transaction.hash,
+        instruction_address: t.instruction.address,
         sign: 1,
       })),
-    })
+    )
 
     await ds.ack()
   }
@@ -0,0 +1,61 @@
+import { IndexerFunction, PipeConfig } from 'src/main'
+import { Sink } from '../../sinks'
+import { type PumpfunGraduation, PumpfunGraduationsStream, type PumpfunMigrationPool } from '../../streams/pumpfun'
+import { logger } from '../../utils/logger'
+
+export const pumpfunGraduationsIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  const ds = new PumpfunGraduationsStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    state: sink.createState({ id: 'solana_pumpfun_graduations' }),
+    logger,
+  })
+
+  for await (const events of await ds.stream()) {
+    const graduations = events.filter((e): e is PumpfunGraduation => e.type === 'graduation')
+    const pools = events.filter((e): e is PumpfunMigrationPool => e.type === 'pool_creation')
+
+    if (graduations.length) {
+      await sink.insert(
+        'solana_pumpfun_graduations',
+        graduations.map((g) => ({
+          timestamp: g.timestamp,
+          mint: g.mint,
+          bonding_curve: g.bondingCurve,
+          user: g.user,
+          virtual_sol_reserves: g.virtualSolReserves.toString(),
+          virtual_token_reserves: g.virtualTokenReserves.toString(),
+          real_sol_reserves: g.realSolReserves.toString(),
+          real_token_reserves: g.realTokenReserves.toString(),
+          block_number: g.block.number,
+          transaction_index: g.transaction.index,
+          instruction_address: g.instruction.address,
+          transaction_hash: g.transaction.hash,
+        })),
+      )
+    }
+
+    if (pools.length) {
+      await sink.insert(
+        'solana_pumpfun_migration_pools',
+        pools.map((p) => ({
+          timestamp: p.timestamp,
+          dex: p.dex,
+          pool_address: p.poolAddress,
+          token_a: p.tokenA,
+          token_b: p.tokenB,
+          creator: p.creator,
+          block_number: p.block.number,
+          transaction_index: p.transaction.index,
+          instruction_address: p.instruction.address,
+          transaction_hash: p.transaction.hash,
+        })),
+      )
+    }
+
+    await ds.ack()
+  }
+}
@@ -1,2 +1,3 @@
 export * from './token_creation'
-export * from './bonding_curve_swaps'
\ No newline at end of file
+export * from './bonding_curve_swaps'
+export * from './graduations'
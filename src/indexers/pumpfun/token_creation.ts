@@ -1,14 +1,11 @@
-import path from 'node:path'
-import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
-import { ClickhouseState } from '@sqd-pipes/core'
 import { IndexerFunction, PipeConfig } from 'src/main'
-import { ensureTables } from '../../db/clickhouse'
+import { Sink } from '../../sinks'
 import { SolanaPumpfunTokensStream } from '../../streams/pumpfun/token_creation'
 import { logger } from '../../utils/logger'
 
 export const pumpfunTokenCreationIndexer: IndexerFunction = async (
   portalUrl: string,
-  clickhouse: NodeClickHouseClient,
+  sink: Sink,
   config: PipeConfig,
 ) => {
   const ds = new SolanaPumpfunTokensStream({
@@ -17,27 +14,26 @@ export const pumpfunTokenCreationIndexer: IndexerFunction = async (
       from: config.fromBlock,
       to: config.toBlock,
     },
-    state: new ClickhouseState(clickhouse, {
-      table: 'solana_sync_status',
-      id: 'solana_pumpfun_token_creation',
-    }),
+    state: sink.createState({ id: 'solana_pumpfun_token_creation' }),
     logger,
   })
 
-  await ensureTables(clickhouse, path.join(__dirname, '../../db/sql/pumpfun_token_creation.sql'))
-
   for await (const tokens of await ds.stream()) {
-    await clickhouse.insert({
-      table: 'solana_pumpfun_tokens',
-      format: 'JSONEachRow',
-      values: tokens.map((t) => ({
+    await sink.insert(
+      'solana_pumpfun_tokens',
+      tokens.map((t) => ({
         name: t.name,
         symbol: t.symbol,
         address: t.address,
         metadata_uri: t.uri,
         creation_time: t.deployTime,
+        creator: t.creator,
+        bonding_curve: t.bondingCurve,
+        block_number: t.blockNumber,
+        transaction_hash: t.transactionHash,
+        instruction_address: t.instructionAddress,
       })),
-    })
+    )
 
     await ds.ack()
   }
@@ -0,0 +1,53 @@
+import { IndexerFunction, PipeConfig } from '../../main'
+import { Sink } from '../../sinks'
+import { RaydiumCpmmLpChangesStream } from '../../streams/raydium_cpmm'
+import { logger } from '../../utils/logger'
+
+export const raydiumCpmmLpChangesIndexer: IndexerFunction = async (
+  portalUrl: string,
+  sink: Sink,
+  config: PipeConfig,
+) => {
+  const ds = new RaydiumCpmmLpChangesStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    state: sink.createState({ id: 'solana_raydium_cpmm_lp_changes' }),
+    logger,
+  })
+
+  for await (const changes of await ds.stream()) {
+    await sink.insert(
+      'solana_raydium_cpmm_lp_changes',
+      changes.map((c) => ({
+        timestamp: c.timestamp,
+        event_type: c.type,
+        account: c.account,
+        pool_address: c.poolAddress,
+        lp_mint: c.lpMint,
+        lp_amount: c.lpAmount.toString(),
+        token_0: c.token0.mint,
+        token_0_decimals: c.token0.decimals,
+        token_0_amount: c.token0.amount.toString(),
+        token_1: c.token1.mint,
+        token_1_decimals: c.token1.decimals,
+        token_1_amount: c.token1.amount.toString(),
+        token_0_reserve_before: c.reservesBefore.token0.toString(),
+        token_1_reserve_before: c.reservesBefore.token1.toString(),
+        token_0_reserve_after: c.reservesAfter.token0.toString(),
+        token_1_reserve_after: c.reservesAfter.token1.toString(),
+        lp_supply_before: c.lpSupplyBefore.toString(),
+        lp_supply_after: c.lpSupplyAfter.toString(),
+        block_number: c.block.number,
+        transaction_index: c.transaction.index,
+        instruction_address: c.instruction.address,
+        transaction_hash: c.transaction.hash,
+        sign: 1,
+      })),
+    )
+
+    await ds.ack()
+  }
+}
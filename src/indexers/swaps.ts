@@ -1,10 +1,7 @@
-import path from 'node:path'
-import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
-import { ClickhouseState } from '@sqd-pipes/core'
-import { ensureTables } from '../db/clickhouse'
 import { IndexerFunction, PipeConfig } from '../main'
-import { SolanaSwapsStream } from '../streams/swaps'
-import { getSortFunction, logger } from '../utils'
+import { ClickhouseSink, PostgresSink, Sink } from '../sinks'
+import { SolanaSwapsStream, TokenAmount } from '../streams/swaps'
+import { calculateTransferFee, getSortFunction, logger } from '../utils'
 
 const TRACKED_TOKENS = [
   'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
@@ -18,11 +15,18 @@ const TRACKED_TOKENS = [
  */
 const sortTokens = getSortFunction(TRACKED_TOKENS)
 
-export const swapsIndexer: IndexerFunction = async (
-  portalUrl: string,
-  clickhouse: NodeClickHouseClient,
-  config: PipeConfig,
-) => {
+// Block numbers of the portal are slots
+const SLOTS_PER_EPOCH = 432_000
+
+type TransferFeeConfig = {
+  mint: string
+  event_type: 'initialize' | 'update'
+  transfer_fee_basis_points: number
+  maximum_fee: string
+  block_number: number
+}
+
+export const swapsIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
   /**
    * Create a stream to read swaps from the Solana blockchain
    * from 3 different DEXs:
@@ -43,23 +47,26 @@ export const swapsIndexer: IndexerFunction = async (
      * We can use the state to track the last block processed
      * and resume from there.
      */
-    state: new ClickhouseState(clickhouse, {
-      table: 'solana_sync_status',
-      id: 'dex_swaps',
-    }),
+    state: sink.createState({ id: 'dex_swaps', rollbackTables: ['solana_swaps_raw'] }),
 
     logger,
   })
 
-  /**
-   * Ensure tables are created in ClickHouse
-   */
-  await ensureTables(clickhouse, path.join(__dirname, '../db/sql/swaps.sql'))
-
   for await (const swaps of await ds.stream()) {
-    await clickhouse.insert({
-      table: 'solana_swaps_raw',
-      values: swaps
+    /**
+     * Transfer fees not reported by the swap are computed from the fee config of the mint
+     */
+    const feeConfigs = await getTransferFeeConfigs(
+      sink,
+      swaps.flatMap((s) => [
+        ...(s.inputNetAmount === null ? [s.input.mint] : []),
+        ...(s.outputNetAmount === null ? [s.output.mint] : []),
+      ]),
+    )
+
+    await sink.insert(
+      'solana_swaps_raw',
+      swaps
         /**
          * Filter out swaps with zero amounts
          */
@@ -72,6 +79,10 @@ export const swapsIndexer: IndexerFunction = async (
 
           const tokenA = !needTokenSwap ? s.input : s.output
           const tokenB = !needTokenSwap ? s.output : s.input
+          const inputNetAmount = s.inputNetAmount ?? getNetAmount(s.input, s.block.number, feeConfigs)
+          const outputNetAmount = s.outputNetAmount ?? getNetAmount(s.output, s.block.number, feeConfigs)
+          const netAmountA = !needTokenSwap ? inputNetAmount : outputNetAmount
+          const netAmountB = !needTokenSwap ? outputNetAmount : inputNetAmount
 
           const tokenAr =
             s.reserves?.tokenA.mint === tokenA.mint ? s.reserves?.tokenA : s.reserves?.tokenB;
@@ -100,12 +111,88 @@ export const swapsIndexer: IndexerFunction = async (
             slippage: s.slippage,
             pool_token_a_reserve: Number(tokenAr?.amount) / 10 ** tokenA.decimals,
             pool_token_b_reserve: Number(tokenBr?.amount) / 10 ** tokenB.decimals,
+            route_id: s.route?.id ?? '',
+            route_hop: s.route?.hop ?? 0,
+            intermediate_token: s.route?.intermediateMint ?? '',
+            fee_token: s.fee?.mint ?? '',
+            fee_amount: s.fee ? Number(s.fee.amount) / 10 ** s.fee.decimals : null,
+            fee_rate: s.feeRate,
+            net_amount_a:
+              netAmountA !== null ? ((needTokenSwap ? -1 : 1) * Number(netAmountA)) / 10 ** tokenA.decimals : null,
+            net_amount_b:
+              netAmountB !== null ? ((needTokenSwap ? 1 : -1) * Number(netAmountB)) / 10 ** tokenB.decimals : null,
             sign: 1,
           };
         }),
-      format: 'JSONEachRow',
-    })
+    )
 
     await ds.ack()
   }
 }
+
+/**
+ * Latest transfer fee configs of the mints, read from the table of the `token-2022.mint-extensions` pipe
+ * if it runs on the same database. The file sink has no tables to read, so unreported fees stay unknown there.
+ */
+async function getTransferFeeConfigs(sink: Sink, mints: string[]): Promise<Map<string, TransferFeeConfig>> {
+  if (!mints.length) return new Map()
+
+  let rows: TransferFeeConfig[] = []
+
+  if (sink instanceof ClickhouseSink) {
+    const table = sink.table('solana_token_2022_mint_extensions')
+    const [{ result: exists }] = await sink.clickhouse
+      .query({ query: `EXISTS TABLE ${table}`, format: 'JSONEachRow' })
+      .then((res) => res.json<{ result: number }>())
+    if (!exists) return new Map()
+
+    rows = await sink.clickhouse
+      .query({
+        query: `SELECT mint, event_type, transfer_fee_basis_points, maximum_fee, block_number
+                FROM ${table}
+                WHERE extension = 'transfer_fee' AND mint IN {mints:Array(String)}
+                ORDER BY block_number DESC, transaction_index DESC, instruction_address DESC
+                LIMIT 1 BY mint`,
+        query_params: { mints: [...new Set(mints)] },
+        format: 'JSONEachRow',
+      })
+      .then((res) => res.json<TransferFeeConfig>())
+  } else if (sink instanceof PostgresSink) {
+    const table = sink.table('solana_token_2022_mint_extensions')
+    const {
+      rows: [{ exists }],
+    } = await sink.pool.query<{ exists: boolean }>('SELECT to_regclass($1) IS NOT NULL AS exists', [table])
+    if (!exists) return new Map()
+
+    const res = await sink.pool.query<TransferFeeConfig>(
+      `SELECT mint, event_type, transfer_fee_basis_points, maximum_fee::text, block_number::integer
+       FROM ${table}
+       WHERE extension = 'transfer_fee' AND mint = ANY ($1)`,
+      [[...new Set(mints)]],
+    )
+    rows = res.rows
+  }
+
+  return new Map(rows.map((r) => [r.mint, r]))
+}
+
+/**
+ * Net amount of a transfer from the transfer fee config of its mint. Only the latest config is indexed, and a fee
+ * set by an update only applies from the second epoch after it, so it's null if the config wasn't in effect yet.
+ */
+function getNetAmount(
+  token: TokenAmount,
+  blockNumber: number,
+  feeConfigs: Map<string, TransferFeeConfig>,
+): bigint | null {
+  const config = feeConfigs.get(token.mint)
+  if (!config) return null
+
+  const appliesFrom =
+    config.event_type === 'initialize'
+      ? config.block_number
+      : (Math.floor(config.block_number / SLOTS_PER_EPOCH) + 2) * SLOTS_PER_EPOCH
+  if (blockNumber < appliesFrom) return null
+
+  return token.amount - calculateTransferFee(token.amount, config.transfer_fee_basis_points, BigInt(config.maximum_fee))
+}
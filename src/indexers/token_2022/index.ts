@@ -0,0 +1 @@
+export * from './mint_extensions'
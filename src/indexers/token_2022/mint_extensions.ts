@@ -0,0 +1,52 @@
+import { IndexerFunction, PipeConfig, TokenSupplyPipeConfig } from '../../main'
+import { Sink } from '../../sinks'
+import { Token2022MintExtensionsStream } from '../../streams/token_2022'
+import { logger } from '../../utils/logger'
+
+export const token2022MintExtensionsIndexer: IndexerFunction = async (
+  portalUrl: string,
+  sink: Sink,
+  config: PipeConfig,
+) => {
+  const { mints } = config as TokenSupplyPipeConfig
+
+  const ds = new Token2022MintExtensionsStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    args: {
+      mints,
+    },
+    state: sink.createState({ id: 'solana_token_2022_mint_extensions' }),
+    logger,
+  })
+
+  for await (const changes of await ds.stream()) {
+    if (changes.length) {
+      await sink.insert(
+        'solana_token_2022_mint_extensions',
+        changes.map((c) => ({
+          timestamp: c.timestamp,
+          mint: c.mint,
+          extension: c.extension,
+          event_type: c.type,
+          authority: c.authority ?? '',
+          transfer_fee_basis_points: c.transferFeeBasisPoints,
+          maximum_fee: c.maximumFee?.toString() ?? null,
+          rate: c.rate,
+          transfer_hook_program_id: c.transferHookProgramId,
+          permanent_delegate: c.permanentDelegate,
+          metadata_address: c.metadataAddress,
+          block_number: c.block.number,
+          transaction_index: c.transaction.index,
+          instruction_address: c.instruction.address,
+          transaction_hash: c.transaction.hash,
+        })),
+      )
+    }
+
+    await ds.ack()
+  }
+}
@@ -0,0 +1,47 @@
+import { IndexerFunction, PipeConfig, TokenSupplyPipeConfig } from '../main'
+import { Sink } from '../sinks'
+import { TokenSupplyStream } from '../streams/token_supply'
+import { logger } from '../utils'
+
+export const tokenSupplyIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  const { mints } = config as TokenSupplyPipeConfig
+
+  const ds = new TokenSupplyStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    args: {
+      mints,
+    },
+    state: sink.createState({ id: 'solana_token_supply', rollbackTables: ['solana_token_supply_events'] }),
+    logger,
+  })
+
+  for await (const events of await ds.stream()) {
+    await sink.insert(
+      'solana_token_supply_events',
+      events.map((e) => ({
+        timestamp: e.timestamp,
+        event_type: e.type,
+        program: e.program,
+        mint: e.mint,
+        decimals: e.decimals ?? 0,
+        amount: e.amount.toString(),
+        account: e.account ?? '',
+        authority: e.authority ?? '',
+        authority_type: e.authorityType ?? '',
+        new_authority: e.newAuthority ?? '',
+        freeze_authority: e.freezeAuthority ?? '',
+        block_number: e.block.number,
+        transaction_index: e.transaction.index,
+        instruction_address: e.instruction.address,
+        transaction_hash: e.transaction.hash,
+        sign: 1,
+      })),
+    )
+
+    await ds.ack()
+  }
+}
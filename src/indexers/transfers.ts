@@ -0,0 +1,47 @@
+import { IndexerFunction, PipeConfig, TransfersPipeConfig } from '../main'
+import { Sink } from '../sinks'
+import { SolanaTokenTransfersStream } from '../streams/transfers'
+import { logger } from '../utils'
+
+export const transfersIndexer: IndexerFunction = async (portalUrl: string, sink: Sink, config: PipeConfig) => {
+  const { mints, wallets } = config as TransfersPipeConfig
+
+  const ds = new SolanaTokenTransfersStream({
+    portal: `${portalUrl}/datasets/solana-mainnet`,
+    blockRange: {
+      from: config.fromBlock,
+      to: config.toBlock,
+    },
+    args: {
+      mints,
+      wallets,
+    },
+    state: sink.createState({ id: 'solana_token_transfers', rollbackTables: ['solana_token_transfers'] }),
+    logger,
+  })
+
+  for await (const transfers of await ds.stream()) {
+    await sink.insert(
+      'solana_token_transfers',
+      transfers.map((t) => ({
+        timestamp: t.timestamp,
+        program: t.program,
+        mint: t.mint,
+        decimals: t.decimals,
+        amount: t.amount.toString(),
+        source: t.source.account,
+        source_owner: t.source.owner ?? '',
+        destination: t.destination.account,
+        destination_owner: t.destination.owner ?? '',
+        authority: t.authority,
+        block_number: t.block.number,
+        transaction_index: t.transaction.index,
+        instruction_address: t.instruction.address,
+        transaction_hash: t.transaction.hash,
+        sign: 1,
+      })),
+    )
+
+    await ds.ack()
+  }
+}
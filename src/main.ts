@@ -1,18 +1,66 @@
 import fs from 'node:fs'
 import path from 'node:path'
-import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
 import { createClickhouseClient } from './db/clickhouse'
+import { createPostgresPool } from './db/postgres'
+import { Schema } from './db/schema'
+import { balancesIndexer } from './indexers/balances'
+import { liquidityIndexer } from './indexers/liquidity'
 import { metaplexIndexer } from './indexers/metaplex'
-import { pumpfunBondingCurveSwapsIndexer, pumpfunTokenCreationIndexer } from './indexers/pumpfun'
+import { poolsIndexer } from './indexers/pools'
+import {
+  pumpfunBondingCurveSwapsIndexer,
+  pumpfunGraduationsIndexer,
+  pumpfunTokenCreationIndexer,
+} from './indexers/pumpfun'
+import { raydiumCpmmLpChangesIndexer } from './indexers/raydium_cpmm'
 import { swapsIndexer } from './indexers/swaps'
+import { token2022MintExtensionsIndexer } from './indexers/token_2022'
+import { tokenSupplyIndexer } from './indexers/token_supply'
+import { transfersIndexer } from './indexers/transfers'
+import { ClickhouseSink, FileFormat, FileSink, PostgresSink, Sink, SinkType } from './sinks'
 import { logger } from './utils'
 import { retry } from './utils/retry'
+import { OffchainMetadataConfig, offchainMetadataWorker } from './workers/offchain_metadata'
 
-type Pipes = 'swaps' | 'metaplex' | 'pumpfun.token-creation' | 'pumpfun.bonding-curve-swaps'
+type Pipes =
+  | 'swaps'
+  | 'liquidity'
+  | 'pools'
+  | 'raydium-cpmm.lp-changes'
+  | 'metaplex'
+  | 'pumpfun.token-creation'
+  | 'pumpfun.bonding-curve-swaps'
+  | 'pumpfun.graduations'
+  | 'transfers'
+  | 'token-supply'
+  | 'token-2022.mint-extensions'
+  | 'balances'
 
 export interface PipeConfig {
   fromBlock: number
   toBlock?: number
+  // Defaults to `clickhouse`
+  sink?: SinkType
+  // Defaults to the ClickHouse database, or the Postgres schema for the postgres sink
+  database?: string
+}
+
+// Transfers are only indexed for the configured mints and wallets, at least one is required
+export interface TransfersPipeConfig extends PipeConfig {
+  mints?: string[]
+  wallets?: string[]
+}
+
+// Balances are only indexed for the configured owners and mints, at least one is required
+export interface BalancesPipeConfig extends PipeConfig {
+  owners?: string[]
+  mints?: string[]
+}
+
+// Also used by token-2022.mint-extensions
+export interface TokenSupplyPipeConfig extends PipeConfig {
+  // All mints are tracked if not set
+  mints?: string[]
 }
 
 export interface ClickhouseConfig {
@@ -20,23 +68,59 @@ export interface ClickhouseConfig {
   url: string
   username: string
   password: string
+  // Prepended to every table name, e.g. `staging_`
+  tablePrefix?: string
+  // Creates tables ON CLUSTER with Replicated*MergeTree engines
+  cluster?: string
+}
+
+export interface PostgresConfig {
+  url: string
+  // Defaults to `public`
+  schema?: string
+  // Prepended to every table name, e.g. `staging_`
+  tablePrefix?: string
+}
+
+export interface FilesConfig {
+  // Defaults to `data` in the project root
+  path?: string
+  // Defaults to `parquet`
+  format?: FileFormat
 }
 
 export interface SoldexerConfig {
   portalUrl: string
   pipes: Record<Pipes, PipeConfig>
   clickhouse?: ClickhouseConfig
+  // Required by pipes with the postgres sink
+  postgres?: PostgresConfig
+  // Used by pipes with the file sink
+  files?: FilesConfig
+  // Fetches the JSON metadata of indexed tokens when set
+  offchainMetadata?: OffchainMetadataConfig
 }
 
-export type IndexerFunction = (portalUrl: string, clickhouse: NodeClickHouseClient, config: PipeConfig) => Promise<void>
+export type IndexerFunction = (portalUrl: string, sink: Sink, config: PipeConfig) => Promise<void>
 
 const indexersMap: Record<Pipes, IndexerFunction> = {
   swaps: swapsIndexer,
+  liquidity: liquidityIndexer,
+  pools: poolsIndexer,
+  'raydium-cpmm.lp-changes': raydiumCpmmLpChangesIndexer,
   metaplex: metaplexIndexer,
   'pumpfun.token-creation': pumpfunTokenCreationIndexer,
   'pumpfun.bonding-curve-swaps': pumpfunBondingCurveSwapsIndexer,
+  'pumpfun.graduations': pumpfunGraduationsIndexer,
+  transfers: transfersIndexer,
+  'token-supply': tokenSupplyIndexer,
+  'token-2022.mint-extensions': token2022MintExtensionsIndexer,
+  balances: balancesIndexer,
 }
 
+// Pipes which read their own tables back with ClickHouse SQL
+const clickhouseOnlyPipes: Pipes[] = ['metaplex']
+
 async function main() {
   const configPath = path.join(__dirname, '../soldexer.json')
   const rawConfig = fs.readFileSync(configPath, 'utf-8')
@@ -57,19 +141,82 @@ async function main() {
     password: config.clickhouse?.password || '',
   })
 
-  await Promise.all(
-    pipes.map(async (pipe) => {
+  const getSchema = (name: string): Schema => ({
+    database:
+      (name === 'offchain-metadata' ? config.offchainMetadata?.database : config.pipes[name as Pipes]?.database) ||
+      config.clickhouse?.database ||
+      'default',
+    tablePrefix: config.clickhouse?.tablePrefix || '',
+    cluster: config.clickhouse?.cluster,
+  })
+
+  const postgres = pipes.some((pipe) => config.pipes[pipe].sink === 'postgres')
+    ? createPostgresPool(config.postgres)
+    : null
+
+  const sinks = new Map<Pipes, Sink>()
+  for (const pipe of pipes) {
+    const { sink = 'clickhouse', database } = config.pipes[pipe]
+
+    if (sink === 'clickhouse') {
+      sinks.set(pipe, new ClickhouseSink(clickhouse, pipe, getSchema(pipe)))
+    } else if (sink === 'postgres' && postgres && !clickhouseOnlyPipes.includes(pipe)) {
+      sinks.set(
+        pipe,
+        new PostgresSink(postgres, pipe, {
+          database: database || config.postgres?.schema || 'public',
+          tablePrefix: config.postgres?.tablePrefix || '',
+        }),
+      )
+    } else if (sink === 'file' && !clickhouseOnlyPipes.includes(pipe)) {
+      sinks.set(
+        pipe,
+        new FileSink(config.files?.path || path.join(__dirname, '../data'), pipe, config.files?.format || 'parquet'),
+      )
+    } else {
+      logger.error(`Sink ${sink} is not supported by pipe: ${pipe}`)
+      process.exit(1)
+    }
+  }
+
+  // Migrations are applied one by one before any pipe starts, `--dry-run` only prints them
+  const dryRun = process.argv.includes('--dry-run')
+  const migrations = [...sinks.values()]
+  if (config.offchainMetadata) {
+    migrations.push(new ClickhouseSink(clickhouse, 'offchain-metadata', getSchema('offchain-metadata')))
+  }
+  try {
+    for (const sink of migrations) {
+      await sink.migrate({ dryRun })
+    }
+  } catch (e: any) {
+    logger.error(e.message)
+    process.exit(1)
+  }
+
+  if (dryRun) return
+
+  const workers: Promise<void>[] = []
+  if (config.offchainMetadata) {
+    const workerConfig = config.offchainMetadata
+    workers.push(retry(() => offchainMetadataWorker(clickhouse, workerConfig, getSchema)))
+  }
+
+  await Promise.all([
+    ...workers,
+    ...pipes.map(async (pipe) => {
       const pipeConfig = config.pipes[pipe]
       const portalUrl = config.portalUrl || 'https://portal.sqd.dev'
+      const sink = sinks.get(pipe)
 
-      if (!indexersMap[pipe]) {
+      if (!indexersMap[pipe] || !sink) {
         logger.error(`No indexer found for pipe: ${pipe}`)
         return
       }
 
-      await retry(() => indexersMap[pipe](portalUrl, clickhouse, pipeConfig))
+      await retry(() => indexersMap[pipe](portalUrl, sink, pipeConfig))
     }),
-  )
+  ])
 }
 
 void main()
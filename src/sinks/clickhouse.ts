@@ -0,0 +1,129 @@
+import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
+import { BlockRef, ClickhouseState } from '@sqd-pipes/core'
+import {
+  type AppliedMigration,
+  MigrationError,
+  getPendingMigrations,
+  loadMigrations,
+  printMigrations,
+} from '../db/migrate'
+import { rollbackTables } from '../db/rollback'
+import { Schema, getDatabase, getOnCluster, getTable, renderSql } from '../db/schema'
+import { logger } from '../utils'
+import { Row, Sink, onRollback } from './sink'
+
+// Migrations of `solana_sync_status`, tracked in `soldexer_migrations` like the ones of a pipe
+const SYNC_STATUS_MIGRATIONS = 'sync-status'
+
+export class ClickhouseSink implements Sink {
+  constructor(
+    readonly clickhouse: NodeClickHouseClient,
+    readonly pipe: string,
+    readonly schema: Schema,
+  ) {}
+
+  table(name: string) {
+    return getTable(this.schema, name)
+  }
+
+  /**
+   * Statements of a migration can't run in a transaction, so it's recorded in `soldexer_migrations`
+   * only after all of them succeed. A failed one is run again from its first statement on the next start,
+   * and its statements should be idempotent (`IF NOT EXISTS`).
+   * The `sync-status` migrations of the state table shared by the pipes of a database are applied first.
+   */
+  async migrate({ dryRun = false }: { dryRun?: boolean } = {}) {
+    if (!dryRun) await this.ensureMigrationsTable()
+
+    for (const pipe of [SYNC_STATUS_MIGRATIONS, this.pipe]) {
+      const migrations = await loadMigrations('clickhouse', pipe, this.schema)
+      const pending = getPendingMigrations(pipe, migrations, await this.getAppliedMigrations(pipe))
+      if (dryRun) {
+        printMigrations(pending)
+        continue
+      }
+
+      for (const migration of pending) {
+        for (const statement of migration.statements) {
+          try {
+            await this.clickhouse.command({ query: statement })
+          } catch (e: any) {
+            throw new MigrationError(`Migration ${pipe}/${migration.file} failed: ${e.message}\n${statement}`)
+          }
+        }
+
+        await this.clickhouse.insert({
+          table: this.table('soldexer_migrations'),
+          format: 'JSONEachRow',
+          values: [{ pipe, version: migration.version, file: migration.file, checksum: migration.checksum }],
+        })
+
+        logger.info(`Applied migration ${pipe}/${migration.file}`)
+      }
+    }
+  }
+
+  createState({ id, rollbackTables = [] }: { id: string; rollbackTables?: string[] }) {
+    return new ClickhouseState(this.clickhouse, {
+      table: this.table('solana_sync_status'),
+      id,
+      onRollback: rollbackTables.length ? onRollback(this, rollbackTables) : undefined,
+    })
+  }
+
+  async insert(table: string, rows: Row[]) {
+    if (rows.length === 0) return
+
+    await this.clickhouse.insert({
+      table: this.table(table),
+      format: 'JSONEachRow',
+      values: rows,
+    })
+  }
+
+  rollback(tables: string[], latest: BlockRef) {
+    return rollbackTables(this.clickhouse, this.schema, tables, latest)
+  }
+
+  // Migrations are tracked in the schema they are applied to, which is created if needed
+  private async ensureMigrationsTable() {
+    await this.clickhouse.command({
+      query: `CREATE DATABASE IF NOT EXISTS ${getDatabase(this.schema)} ${getOnCluster(this.schema)}`,
+    })
+
+    await this.clickhouse.command({
+      query: renderSql(
+        this.schema,
+        `
+        CREATE TABLE IF NOT EXISTS {{table:soldexer_migrations}} {{on_cluster}}
+        (
+            pipe        String,
+            version     UInt32,
+            file        String,
+            checksum    String,
+            applied_at  DateTime DEFAULT now()
+        ) ENGINE = {{replicated}}ReplacingMergeTree(applied_at)
+        ORDER BY (pipe, version)
+      `,
+      ),
+    })
+  }
+
+  private async getAppliedMigrations(pipe: string): Promise<AppliedMigration[]> {
+    const table = this.table('soldexer_migrations')
+
+    // The table is not created in dry-run mode
+    const [{ result: exists }] = await this.clickhouse
+      .query({ query: `EXISTS TABLE ${table}`, format: 'JSONEachRow' })
+      .then((res) => res.json<{ result: number }>())
+    if (!exists) return []
+
+    return this.clickhouse
+      .query({
+        query: `SELECT version, file, checksum FROM ${table} FINAL WHERE pipe = {pipe:String} ORDER BY version`,
+        query_params: { pipe },
+        format: 'JSONEachRow',
+      })
+      .then((res) => res.json<AppliedMigration>())
+  }
+}
@@ -0,0 +1,173 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import zlib from 'node:zlib'
+import { ParquetReader } from '@dsnp/parquetjs'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FileFormat, FileSink } from './file'
+import { Row } from './sink'
+
+const gunzip = promisify(zlib.gunzip)
+
+const row = (block: number, values: Row = {}): Row => ({
+  timestamp: new Date(`2024-01-0${block < 105 ? 1 : 2}T10:00:${block - 100}0Z`),
+  block_number: block,
+  account: `account-${block}`,
+  amount: block / 10,
+  is_buy: block % 2 === 0,
+  instruction_address: [block, 1],
+  fee_amount: null,
+  ...values,
+})
+
+let root: string
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'file-sink-'))
+})
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+// Files of a table in block order, by partition and name
+async function getFiles(sink: FileSink, table: string) {
+  const files: string[] = []
+  for (const partition of (await fs.readdir(path.join(sink.dir, table))).sort()) {
+    for (const name of (await fs.readdir(path.join(sink.dir, table, partition))).sort()) {
+      files.push(path.join(partition, name))
+    }
+  }
+
+  return files
+}
+
+// Rows of parquet files, or the text of csv files, as written
+async function readFile(file: string) {
+  if (file.endsWith('.csv.gz')) {
+    return (await gunzip(await fs.readFile(file))).toString('utf-8')
+  }
+
+  const reader = await ParquetReader.openFile(file)
+  const rows: unknown[] = []
+  const cursor = reader.getCursor()
+  for (let record = await cursor.next(); record; record = await cursor.next()) {
+    rows.push(record)
+  }
+  await reader.close()
+
+  return rows
+}
+
+describe.each<[FileFormat, string]>([
+  ['csv', 'csv.gz'],
+  ['parquet', 'parquet'],
+])('FileSink with %s files', (format, extension) => {
+  it('writes a file per day of every batch', async () => {
+    const sink = new FileSink(root, 'swaps', format)
+    await sink.migrate()
+
+    await sink.insert('solana_swaps_raw', [row(100), row(101), row(102)])
+    await sink.insert('solana_swaps_raw', [row(103), row(104), row(105)])
+
+    expect(await getFiles(sink, 'solana_swaps_raw')).toEqual([
+      `date=2024-01-01/000000000100-000000000102.${extension}`,
+      `date=2024-01-01/000000000103-000000000104.${extension}`,
+      `date=2024-01-02/000000000105-000000000105.${extension}`,
+    ])
+  })
+
+  it('rewrites the file containing the latest block on rollback, with the same content as if written', async () => {
+    const sink = new FileSink(root, 'swaps', format)
+    await sink.migrate()
+    // Quotes, separators and line breaks of fields survive reading the file back
+    const rows = [row(100, { account: 'a,"b"\nc' }), row(101, { fee_amount: 0.25 }), row(102)]
+
+    await sink.insert('solana_swaps_raw', rows)
+    await sink.insert('solana_swaps_raw', [row(103), row(104), row(105)])
+    await sink.rollback(['solana_swaps_raw'], { number: 101, hash: '0x101' })
+
+    expect(await getFiles(sink, 'solana_swaps_raw')).toEqual([`date=2024-01-01/000000000100-000000000101.${extension}`])
+
+    const expected = new FileSink(path.join(root, 'expected'), 'swaps', format)
+    await expected.insert('solana_swaps_raw', rows.slice(0, 2))
+
+    const file = `date=2024-01-01/000000000100-000000000101.${extension}`
+    expect(await readFile(path.join(sink.dir, 'solana_swaps_raw', file))).toEqual(
+      await readFile(path.join(expected.dir, 'solana_swaps_raw', file)),
+    )
+  })
+
+  it('keeps files before the latest block on rollback', async () => {
+    const sink = new FileSink(root, 'swaps', format)
+    await sink.migrate()
+
+    await sink.insert('solana_swaps_raw', [row(100), row(101)])
+    await sink.insert('solana_swaps_raw', [row(102), row(103)])
+    const file = path.join(sink.dir, 'solana_swaps_raw', `date=2024-01-01/000000000100-000000000101.${extension}`)
+    const content = await fs.readFile(file)
+
+    await sink.rollback(['solana_swaps_raw'], { number: 101, hash: '0x101' })
+
+    expect(await getFiles(sink, 'solana_swaps_raw')).toEqual([`date=2024-01-01/000000000100-000000000101.${extension}`])
+    expect(await fs.readFile(file)).toEqual(content)
+  })
+
+  it('deletes files left over from an interrupted write', async () => {
+    const sink = new FileSink(root, 'swaps', format)
+    const tmp = path.join(sink.dir, 'solana_swaps_raw', `date=2024-01-01/000000000100-000000000101.${extension}.tmp`)
+    await fs.mkdir(path.dirname(tmp), { recursive: true })
+    await fs.writeFile(tmp, '')
+
+    await sink.migrate()
+
+    await expect(fs.access(tmp)).rejects.toThrow()
+  })
+})
+
+describe('FileSink with parquet files', () => {
+  it('reads back values with the types of their columns', async () => {
+    const sink = new FileSink(root, 'swaps', 'parquet')
+    await sink.migrate()
+
+    await sink.insert('solana_swaps_raw', [row(100, { amount_raw: 10n ** 20n })])
+
+    const [record] = await readFile(
+      path.join(sink.dir, 'solana_swaps_raw', 'date=2024-01-01/000000000100-000000000100.parquet'),
+    )
+    expect(record).toEqual({
+      timestamp: new Date('2024-01-01T10:00:00Z'),
+      block_number: 100,
+      account: 'account-100',
+      amount: 10,
+      is_buy: true,
+      instruction_address: '[100,1]',
+      amount_raw: '100000000000000000000',
+    })
+  })
+
+  it('keeps the column types of a table set by their first non-null values', async () => {
+    const sink = new FileSink(root, 'swaps', 'parquet')
+    await sink.migrate()
+
+    const readSchema = async () => JSON.parse(await fs.readFile(path.join(sink.dir, 'schema.json'), 'utf-8'))
+
+    // Only null so far, so the column has no type yet
+    await sink.insert('solana_swaps_raw', [row(100)])
+    expect((await readSchema()).solana_swaps_raw).not.toHaveProperty('fee_amount')
+
+    await sink.insert('solana_swaps_raw', [row(101, { fee_amount: 0.25 })])
+    expect((await readSchema()).solana_swaps_raw).toMatchObject({
+      block_number: 'DOUBLE',
+      account: 'UTF8',
+      fee_amount: 'DOUBLE',
+    })
+
+    // A new sink of the pipe reads the types back from the schema file
+    const restarted = new FileSink(root, 'swaps', 'parquet')
+    await expect(restarted.insert('solana_swaps_raw', [row(102, { fee_amount: 'free' })])).rejects.toThrow(
+      'Column fee_amount of solana_swaps_raw is DOUBLE, but got a UTF8 value',
+    )
+  })
+})
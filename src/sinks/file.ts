@@ -0,0 +1,398 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import zlib from 'node:zlib'
+import { ParquetReader, ParquetSchema, ParquetWriter } from '@dsnp/parquetjs'
+import { BlockRef, State } from '@sqd-pipes/core'
+import { logger } from '../utils/logger'
+import { Row, Sink, onRollback } from './sink'
+
+export type FileFormat = 'parquet' | 'csv'
+
+const gzip = promisify(zlib.gzip)
+const gunzip = promisify(zlib.gunzip)
+
+// Rows are partitioned by the day of the first of these columns found in a row
+const PARTITION_COLUMNS = ['timestamp', 'creation_time']
+const DATA_FILE = /^(\d+)-(\d+)\.(parquet|csv\.gz)$/
+
+type DataFile = {
+  path: string
+  from: number
+  to: number
+}
+
+type ParquetType = 'DOUBLE' | 'BOOLEAN' | 'TIMESTAMP_MILLIS' | 'UTF8'
+
+// Parquet column types of every table of a pipe, by table and column name
+type Schemas = Record<string, Record<string, ParquetType>>
+
+/**
+ * Writes the rows of a pipe to `<path>/<pipe>/<table>/date=<YYYY-MM-DD>/<first block>-<last block>.<parquet|csv.gz>`,
+ * one file per table and day of every batch, and the last processed block to `<path>/<pipe>/manifest.json`.
+ * Files are never appended to, rolled back blocks are removed by rewriting the files containing them.
+ */
+export class FileSink implements Sink {
+  readonly dir: string
+  private schemas?: Schemas
+
+  constructor(
+    root: string,
+    readonly pipe: string,
+    readonly format: FileFormat,
+  ) {
+    this.dir = path.join(root, pipe)
+  }
+
+  // Files take the columns of their rows, so there is no schema to migrate
+  async migrate({ dryRun = false }: { dryRun?: boolean } = {}) {
+    if (dryRun) return
+
+    await fs.mkdir(this.dir, { recursive: true })
+
+    // Files being written when the pipe stopped, they were never renamed into place
+    for (const entry of await fs.readdir(this.dir, { withFileTypes: true, recursive: true })) {
+      if (entry.isFile() && entry.name.endsWith('.tmp')) {
+        await fs.rm(path.join(entry.parentPath, entry.name))
+      }
+    }
+  }
+
+  createState({ id }: { id: string; rollbackTables?: string[] }) {
+    return new FileState({
+      path: path.join(this.dir, 'manifest.json'),
+      id,
+      // Files of a batch written before a crash are not covered by the manifest, so every table is rolled back
+      onRollback: async (options) => onRollback(this, await this.getTables())(options),
+    })
+  }
+
+  async insert(table: string, rows: Row[]) {
+    const days = new Map<string, Row[]>()
+    for (const row of rows) {
+      const day = getDay(row)
+      const dayRows = days.get(day)
+      if (dayRows) {
+        dayRows.push(row)
+      } else {
+        days.set(day, [row])
+      }
+    }
+
+    for (const [day, dayRows] of days) {
+      await this.writeFile(table, path.join(this.dir, table, `date=${day}`), dayRows)
+    }
+  }
+
+  async rollback(tables: string[], latest: BlockRef) {
+    for (const table of tables) {
+      const files = (await this.getFiles(table)).filter((f) => f.to > latest.number)
+      if (!files.length) continue
+
+      logger.warn({
+        message: 'Rolling back orphaned blocks',
+        table: path.join(this.dir, table),
+        block_number: latest.number,
+        block_hash: latest.hash,
+      })
+
+      for (const file of files) {
+        if (file.from <= latest.number) {
+          const rows = await formats[this.format].read(file.path)
+          await this.writeFile(
+            table,
+            path.dirname(file.path),
+            rows.filter((r) => Number(r.block_number) <= latest.number),
+          )
+        }
+
+        await fs.rm(file.path)
+      }
+    }
+  }
+
+  private async writeFile(table: string, dir: string, rows: Row[]) {
+    if (rows.length === 0) return
+
+    let from = Number.POSITIVE_INFINITY
+    let to = 0
+    for (const row of rows) {
+      from = Math.min(from, Number(row.block_number))
+      to = Math.max(to, Number(row.block_number))
+    }
+    const name = `${formatBlock(from)}-${formatBlock(to)}`
+    const file = path.join(dir, `${name}.${formats[this.format].extension}`)
+
+    // Readers never see a partially written file
+    await fs.mkdir(dir, { recursive: true })
+    const types = this.format === 'parquet' ? await this.getParquetTypes(table, rows) : {}
+    await formats[this.format].write(`${file}.tmp`, rows, types)
+    await fs.rename(`${file}.tmp`, file)
+  }
+
+  /**
+   * Parquet types of the columns of a table are set by their first non-null value and kept in
+   * `<path>/<pipe>/schema.json`, so every file of a table has the same types. Columns that were only null
+   * so far are left out of the files rather than given a type a later value might not have.
+   */
+  private async getParquetTypes(table: string, rows: Row[]) {
+    const file = path.join(this.dir, 'schema.json')
+    if (!this.schemas) {
+      this.schemas = await fs.readFile(file, 'utf-8').then(
+        (json): Schemas => JSON.parse(json),
+        (e) => {
+          if (e.code === 'ENOENT') return {}
+          throw e
+        },
+      )
+    }
+
+    const types = this.schemas[table] || {}
+    let changed = false
+    for (const row of rows) {
+      for (const [column, value] of Object.entries(row)) {
+        const normalized = toValue(value)
+        if (normalized === null) continue
+
+        const type = getParquetType(normalized)
+        if (!types[column]) {
+          types[column] = type
+          changed = true
+        } else if (types[column] !== type) {
+          throw new Error(`Column ${column} of ${table} is ${types[column]}, but got a ${type} value`)
+        }
+      }
+    }
+
+    if (changed) {
+      this.schemas[table] = types
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(this.schemas, null, 2))
+      await fs.rename(`${file}.tmp`, file)
+    }
+
+    return types
+  }
+
+  private async getTables() {
+    const entries = await fs.readdir(this.dir, { withFileTypes: true }).catch(() => [])
+
+    return entries.filter((e) => e.isDirectory()).map((e) => e.name)
+  }
+
+  private async getFiles(table: string): Promise<DataFile[]> {
+    const files: DataFile[] = []
+
+    const partitions = await fs.readdir(path.join(this.dir, table)).catch(() => [])
+    for (const partition of partitions) {
+      for (const name of await fs.readdir(path.join(this.dir, table, partition))) {
+        const match = DATA_FILE.exec(name)
+        if (!match) continue
+
+        files.push({
+          path: path.join(this.dir, table, partition, name),
+          from: Number(match[1]),
+          to: Number(match[2]),
+        })
+      }
+    }
+
+    return files
+  }
+}
+
+// Zero padded, so files of a partition are listed in block order
+function formatBlock(block: number) {
+  return block.toString().padStart(12, '0')
+}
+
+function getDay(row: Row) {
+  for (const column of PARTITION_COLUMNS) {
+    const value = row[column]
+    if (value === undefined || value === null) continue
+
+    // Numbers are unix timestamps in seconds like block timestamps
+    const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value * 1000 : String(value))
+
+    return date.toISOString().slice(0, 10)
+  }
+
+  throw new Error(`Row has none of the partition columns: ${PARTITION_COLUMNS.join(', ')}`)
+}
+
+// Dates are kept for the format to encode, arrays and other objects are stored as JSON
+function toValue(value: unknown) {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'bigint') return value.toString()
+  if (value instanceof Date || typeof value !== 'object') return value
+
+  return JSON.stringify(value)
+}
+
+const formats: Record<
+  FileFormat,
+  {
+    extension: string
+    write: (file: string, rows: Row[], types: Record<string, ParquetType>) => Promise<void>
+    read: (file: string) => Promise<Row[]>
+  }
+> = {
+  /**
+   * Columns are optional and have the types of the table: numbers are DOUBLE, dates are TIMESTAMP_MILLIS,
+   * booleans are BOOLEAN and everything else is UTF8
+   */
+  parquet: {
+    extension: 'parquet',
+    write: async (file, rows, types) => {
+      const columns = Object.keys(rows[0]).filter((c) => types[c])
+      const values = rows.map((row) => columns.map((c) => toValue(row[c])))
+
+      const schema = new ParquetSchema(
+        Object.fromEntries(
+          columns.map((column) => [column, { type: types[column], optional: true, compression: 'SNAPPY' }]),
+        ),
+      )
+
+      const writer = await ParquetWriter.openFile(schema, file)
+      for (const value of values) {
+        await writer.appendRow(Object.fromEntries(columns.map((c, i) => [c, value[i]]).filter(([, v]) => v !== null)))
+      }
+      await writer.close()
+    },
+    read: async (file) => {
+      const reader = await ParquetReader.openFile(file)
+      const columns = Object.keys(reader.schema.fields)
+
+      const rows: Row[] = []
+      const cursor = reader.getCursor()
+      for (let record = await cursor.next(); record; record = await cursor.next()) {
+        rows.push(Object.fromEntries(columns.map((c) => [c, (record as Row)[c] ?? null])))
+      }
+      await reader.close()
+
+      return rows
+    },
+  },
+  /**
+   * RFC 4180 CSV with a header row. Dates are ISO 8601 strings and nulls are empty fields
+   */
+  csv: {
+    extension: 'csv.gz',
+    write: async (file, rows) => {
+      const columns = Object.keys(rows[0])
+      const lines = [columns, ...rows.map((row) => columns.map((c) => row[c]))].map((fields) =>
+        fields.map(toCsvField).join(','),
+      )
+
+      await fs.writeFile(file, await gzip(`${lines.join('\n')}\n`))
+    },
+    read: async (file) => {
+      const [columns, ...records] = parseCsv((await gunzip(await fs.readFile(file))).toString('utf-8'))
+
+      return records.map((record) => Object.fromEntries(columns.map((c, i) => [c, record[i]])))
+    },
+  },
+}
+
+function getParquetType(value: unknown): ParquetType {
+  if (typeof value === 'number') return 'DOUBLE'
+  if (typeof value === 'boolean') return 'BOOLEAN'
+  if (value instanceof Date) return 'TIMESTAMP_MILLIS'
+
+  return 'UTF8'
+}
+
+function toCsvField(value: unknown) {
+  const normalized = toValue(value)
+  if (normalized === null) return ''
+
+  const field = normalized instanceof Date ? normalized.toISOString() : String(normalized)
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+}
+
+function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        field += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      record.push(field)
+      field = ''
+    } else if (c === '\n') {
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else if (c !== '\r') {
+      field += c
+    }
+  }
+
+  return records
+}
+
+type Manifest = Record<string, { initial: BlockRef; lastBlock: BlockRef; updatedAt: string }>
+
+type FileStateOptions = {
+  path: string
+  id: string
+  onRollback?: (options: { type: 'offset_check'; state: FileState; latest?: BlockRef }) => Promise<void>
+}
+
+/**
+ * Cursor state of a pipe stored in its manifest file, the counterpart of ClickhouseState.
+ * The manifest is replaced atomically and only after the files of a batch are written.
+ */
+export class FileState implements State {
+  constructor(private options: FileStateOptions) {}
+
+  async saveOffset(offset: string) {
+    const manifest = await this.readManifest()
+    const lastBlock: BlockRef = JSON.parse(offset)
+
+    manifest[this.options.id] = {
+      initial: manifest[this.options.id]?.initial || lastBlock,
+      lastBlock,
+      updatedAt: new Date().toISOString(),
+    }
+
+    await fs.writeFile(`${this.options.path}.tmp`, JSON.stringify(manifest, null, 2))
+    await fs.rename(`${this.options.path}.tmp`, this.options.path)
+  }
+
+  async getOffset(defaultValue: string) {
+    const state = (await this.readManifest())[this.options.id]
+    if (!state) {
+      await this.saveOffset(defaultValue)
+      return undefined
+    }
+
+    await this.options.onRollback?.({ type: 'offset_check', state: this, latest: state.lastBlock })
+
+    return { initial: JSON.stringify(state.initial), current: JSON.stringify(state.lastBlock) }
+  }
+
+  private async readManifest(): Promise<Manifest> {
+    try {
+      return JSON.parse(await fs.readFile(this.options.path, 'utf-8'))
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return {}
+      throw e
+    }
+  }
+}
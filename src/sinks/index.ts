@@ -0,0 +1,4 @@
+export * from './clickhouse'
+export * from './file'
+export * from './postgres'
+export * from './sink'
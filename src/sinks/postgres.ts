@@ -0,0 +1,267 @@
+import { BlockRef, State } from '@sqd-pipes/core'
+import { Pool } from 'pg'
+import {
+  type AppliedMigration,
+  MigrationError,
+  getPendingMigrations,
+  loadMigrations,
+  printMigrations,
+} from '../db/migrate'
+import { Schema, getDatabase, getTable, quoteIdentifier as quote } from '../db/schema'
+import { logger } from '../utils'
+import { Row, Sink, onRollback } from './sink'
+
+// Postgres limits a query to 65535 bind parameters
+const MAX_PARAMETERS = 65535
+
+/**
+ * Writes rows with upserts on the primary key of the table, which is the sorting key of the ClickHouse table.
+ * Replacing tables keep the latest row like in ClickHouse, and rows of a batch written again after a restart
+ * don't duplicate. Rolled back rows are deleted, so `sign` is always 1.
+ */
+export class PostgresSink implements Sink {
+  private primaryKeys = new Map<string, string[]>()
+
+  constructor(
+    readonly pool: Pool,
+    readonly pipe: string,
+    readonly schema: Schema,
+  ) {}
+
+  table(name: string) {
+    return getTable(this.schema, name)
+  }
+
+  /**
+   * Every migration runs in a transaction together with its `soldexer_migrations` record
+   */
+  async migrate({ dryRun = false }: { dryRun?: boolean } = {}) {
+    if (!dryRun) await this.ensureMigrationsTable()
+
+    const migrations = await loadMigrations('postgres', this.pipe, this.schema)
+    const pending = getPendingMigrations(this.pipe, migrations, await this.getAppliedMigrations())
+    if (dryRun) {
+      printMigrations(pending)
+      return
+    }
+
+    for (const migration of pending) {
+      const client = await this.pool.connect()
+      try {
+        await client.query('BEGIN')
+        for (const statement of migration.statements) {
+          try {
+            await client.query(statement)
+          } catch (e: any) {
+            throw new MigrationError(`Migration ${this.pipe}/${migration.file} failed: ${e.message}\n${statement}`)
+          }
+        }
+        await client.query(
+          `INSERT INTO ${this.table('soldexer_migrations')} (pipe, version, file, checksum) VALUES ($1, $2, $3, $4)`,
+          [this.pipe, migration.version, migration.file, migration.checksum],
+        )
+        await client.query('COMMIT')
+      } catch (e) {
+        await client.query('ROLLBACK')
+        throw e
+      } finally {
+        client.release()
+      }
+
+      logger.info(`Applied migration ${this.pipe}/${migration.file}`)
+    }
+  }
+
+  createState({ id, rollbackTables = [] }: { id: string; rollbackTables?: string[] }) {
+    return new PostgresState(this.pool, {
+      table: this.table('solana_sync_status'),
+      id,
+      onRollback: rollbackTables.length ? onRollback(this, rollbackTables) : undefined,
+    })
+  }
+
+  async insert(table: string, rows: Row[]) {
+    if (rows.length === 0) return
+
+    const columns = Object.keys(rows[0])
+    const keys = await this.getPrimaryKey(table)
+
+    // A row can only be updated once per statement, so only the last version of every key is kept
+    if (keys.length) {
+      const latest = new Map<string, Row>()
+      for (const row of rows) {
+        latest.set(JSON.stringify(keys.map((k) => row[k])), row)
+      }
+      rows = [...latest.values()]
+    }
+
+    const updates = columns.filter((c) => !keys.includes(c)).map((c) => `${quote(c)} = EXCLUDED.${quote(c)}`)
+    let onConflict = ''
+    if (keys.length) {
+      onConflict = updates.length
+        ? `ON CONFLICT (${keys.map(quote).join(', ')}) DO UPDATE SET ${updates.join(', ')}`
+        : 'ON CONFLICT DO NOTHING'
+    }
+
+    const batchSize = Math.floor(MAX_PARAMETERS / columns.length)
+    for (let i = 0; i < rows.length; i += batchSize) {
+      const batch = rows.slice(i, i + batchSize)
+      const values = batch.map((_, r) => `(${columns.map((_, c) => `$${r * columns.length + c + 1}`).join(', ')})`)
+
+      await this.pool.query(
+        `INSERT INTO ${this.table(table)} (${columns.map(quote).join(', ')}) VALUES ${values.join(', ')} ${onConflict}`,
+        batch.flatMap((row) => columns.map((c) => toParameter(row[c]))),
+      )
+    }
+  }
+
+  async rollback(tables: string[], latest: BlockRef) {
+    for (const name of tables) {
+      // Views are computed from their tables, which are rolled back instead
+      const {
+        rows: [{ kind }],
+      } = await this.pool.query<{ kind: string | null }>(
+        'SELECT (SELECT relkind FROM pg_class WHERE oid = to_regclass($1)) AS kind',
+        [this.table(name)],
+      )
+      if (kind !== 'r' && kind !== 'p') continue
+
+      logger.warn({
+        message: 'Rolling back orphaned blocks',
+        table: this.table(name),
+        block_number: latest.number,
+        block_hash: latest.hash,
+      })
+
+      await this.pool.query(`DELETE FROM ${this.table(name)} WHERE block_number > $1`, [latest.number])
+    }
+  }
+
+  private async getPrimaryKey(table: string): Promise<string[]> {
+    const cached = this.primaryKeys.get(table)
+    if (cached) return cached
+
+    const res = await this.pool.query<{ name: string }>(
+      `
+      SELECT a.attname AS name
+      FROM pg_index i
+      JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+      WHERE i.indrelid = $1::regclass AND i.indisprimary
+      ORDER BY array_position(i.indkey, a.attnum)
+    `,
+      [this.table(table)],
+    )
+    const keys = res.rows.map((r) => r.name)
+    this.primaryKeys.set(table, keys)
+
+    return keys
+  }
+
+  // Migrations are tracked in the schema they are applied to, which is created if needed
+  private async ensureMigrationsTable() {
+    await this.pool.query(`CREATE SCHEMA IF NOT EXISTS ${getDatabase(this.schema)}`)
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${this.table('soldexer_migrations')}
+      (
+          pipe        text NOT NULL,
+          version     integer NOT NULL,
+          file        text NOT NULL,
+          checksum    text NOT NULL,
+          applied_at  timestamptz NOT NULL DEFAULT now(),
+
+          PRIMARY KEY (pipe, version)
+      )
+    `)
+  }
+
+  private async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const table = this.table('soldexer_migrations')
+
+    // The table is not created in dry-run mode
+    const {
+      rows: [{ exists }],
+    } = await this.pool.query<{ exists: boolean }>('SELECT to_regclass($1) IS NOT NULL AS exists', [table])
+    if (!exists) return []
+
+    const res = await this.pool.query<AppliedMigration>(
+      `SELECT version, file, checksum FROM ${table} WHERE pipe = $1 ORDER BY version`,
+      [this.pipe],
+    )
+
+    return res.rows
+  }
+}
+
+// Arrays and dates are converted by the driver, tuples and other objects are stored as JSON
+function toParameter(value: unknown) {
+  if (value === undefined) return null
+  if (value === null || Array.isArray(value) || value instanceof Date || typeof value !== 'object') return value
+
+  return JSON.stringify(value)
+}
+
+type PostgresStateOptions = {
+  table: string
+  id: string
+  onRollback?: (options: { type: 'offset_check'; state: PostgresState; latest?: BlockRef }) => Promise<void>
+}
+
+/**
+ * Cursor state of a pipe stored in Postgres, the counterpart of ClickhouseState.
+ * Offsets are the JSON encoded last processed block.
+ */
+export class PostgresState implements State {
+  private initialized = false
+
+  constructor(
+    private pool: Pool,
+    private options: PostgresStateOptions,
+  ) {}
+
+  async saveOffset(offset: string) {
+    await this.ensureTable()
+
+    await this.pool.query(
+      `
+      INSERT INTO ${this.options.table} (id, initial, current) VALUES ($1, $2, $2)
+      ON CONFLICT (id) DO UPDATE SET current = EXCLUDED.current, updated_at = now()
+    `,
+      [this.options.id, offset],
+    )
+  }
+
+  async getOffset(defaultValue: string) {
+    await this.ensureTable()
+
+    const {
+      rows: [state],
+    } = await this.pool.query<{ initial: string; current: string }>(
+      `SELECT initial, current FROM ${this.options.table} WHERE id = $1`,
+      [this.options.id],
+    )
+    if (!state) {
+      await this.saveOffset(defaultValue)
+      return undefined
+    }
+
+    // Rows of a batch that was written but not acknowledged, e.g. before a crash, might be of orphaned blocks by now
+    await this.options.onRollback?.({ type: 'offset_check', state: this, latest: JSON.parse(state.current) })
+
+    return state
+  }
+
+  private async ensureTable() {
+    if (this.initialized) return
+
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${this.options.table}
+      (
+          id          text PRIMARY KEY,
+          initial     text NOT NULL,
+          current     text NOT NULL,
+          updated_at  timestamptz NOT NULL DEFAULT now()
+      )
+    `)
+    this.initialized = true
+  }
+}
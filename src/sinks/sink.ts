@@ -0,0 +1,43 @@
+import { BlockRef, State } from '@sqd-pipes/core'
+
+export type SinkType = 'clickhouse' | 'postgres' | 'file'
+
+export type Row = Record<string, unknown>
+
+/**
+ * Storage of a pipe, indexers only write through it so every pipe can run on any of the databases.
+ * Rows are keyed by the column names of the pipe tables, with 64-bit and larger integers passed as strings.
+ */
+export interface Sink {
+  /**
+   * Applies the pending migrations of the pipe, `dryRun` prints their DDL instead
+   */
+  migrate(options?: { dryRun?: boolean }): Promise<void>
+
+  /**
+   * Cursor state of the pipe stream. Rows of orphaned blocks are removed from `rollbackTables`
+   * when the state detects a fork.
+   */
+  createState(options: { id: string; rollbackTables?: string[] }): State
+
+  insert(table: string, rows: Row[]): Promise<void>
+
+  /**
+   * Removes rows of blocks after `latest` from tables with a `block_number` column
+   */
+  rollback(tables: string[], latest: BlockRef): Promise<void>
+}
+
+/**
+ * Rollback handler for the sink states. It's called when the portal reports a fork,
+ * or when the block hash stored in the state no longer matches the chain on startup.
+ * `latest` is the last block that is still valid, the state resumes the stream from it.
+ */
+export function onRollback(sink: Sink, tables: string[]) {
+  return async ({ latest }: { latest?: BlockRef }) => {
+    // Nothing was indexed yet
+    if (!latest?.number) return
+
+    await sink.rollback(tables, latest)
+  }
+}
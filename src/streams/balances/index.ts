@@ -0,0 +1,118 @@
+import { BlockRef, OptionalArgs, PortalAbstractStream } from '@sqd-pipes/core'
+import type { TokenBalance } from '@subsquid/solana-stream'
+import { getTransactionHash } from '../../utils'
+
+export type SolanaTokenBalance = {
+  account: string
+  owner: string
+  mint: string
+  decimals: number
+  // Post balance, zero if the token account was closed
+  amount: bigint
+  transaction: { hash: string; index: number }
+  block: BlockRef
+  timestamp: Date
+}
+
+/**
+ * Post balances of token accounts of the given owners, or of the given mints.
+ * Only the last balance of an account in a block is reported.
+ */
+export class SolanaTokenBalancesStream extends PortalAbstractStream<
+  SolanaTokenBalance,
+  OptionalArgs<{
+    owners?: string[]
+    mints?: string[]
+  }>
+> {
+  async stream(): Promise<ReadableStream<SolanaTokenBalance[]>> {
+    const owners = this.options.args?.owners || []
+    const mints = this.options.args?.mints || []
+    if (owners.length === 0 && mints.length === 0) {
+      throw new Error('Token balances: at least one owner or mint must be configured')
+    }
+
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        tokenBalance: {
+          transactionIndex: true,
+          account: true,
+          preMint: true,
+          postMint: true,
+          preDecimals: true,
+          postDecimals: true,
+          preOwner: true,
+          postOwner: true,
+          postAmount: true,
+        },
+      },
+      // Pre balances are matched as well, so closed accounts are reported with a zero balance
+      tokenBalances: [
+        ...(owners.length
+          ? [
+              { preOwner: owners, transaction: true },
+              { postOwner: owners, transaction: true },
+            ]
+          : []),
+        ...(mints.length
+          ? [
+              { preMint: mints, transaction: true },
+              { postMint: mints, transaction: true },
+            ]
+          : []),
+      ],
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.tokenBalances) return []
+
+            const balances = new Map<string, SolanaTokenBalance>()
+
+            // Balances come in transaction order, so later ones replace earlier ones
+            for (const balance of block.tokenBalances as TokenBalance<any>[]) {
+              const owner = balance.postOwner ?? balance.preOwner
+              const mint = balance.postMint ?? balance.preMint
+              const decimals = balance.postDecimals ?? balance.preDecimals
+              if (!owner || !mint || decimals === undefined) continue
+
+              balances.set(balance.account, {
+                account: balance.account,
+                owner,
+                mint,
+                decimals,
+                amount: BigInt(balance.postAmount ?? 0),
+                transaction: {
+                  hash: getTransactionHash(balance, block),
+                  index: balance.transactionIndex,
+                },
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return [...balances.values()]
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
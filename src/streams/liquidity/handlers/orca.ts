@@ -0,0 +1,50 @@
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as whirlpool from '../../../abi/orca_whirlpool'
+import { type Block, type Instruction, getInstructionBalances, getInstructionEvents } from '../../../utils'
+import type { SolanaLiquidityChangeTransfer } from '../index'
+import { getVaultTokenAmount } from './utils'
+
+export function handleWhirlpoolLiquidity(ins: Instruction, block: Block): SolanaLiquidityChangeTransfer {
+  const { action, accounts, liquidity } = decodeLiquidity(ins)
+  const [event] =
+    action === 'increase'
+      ? getInstructionEvents(ins, block, whirlpool.events.LiquidityIncreased)
+      : getInstructionEvents(ins, block, whirlpool.events.LiquidityDecreased)
+
+  const positionToken = getInstructionBalances(ins, block).find((b) => b.account === accounts.positionTokenAccount)
+
+  return {
+    type: 'orca_whirlpool',
+    action,
+    account: accounts.positionAuthority,
+    poolAddress: accounts.whirlpool,
+    position: accounts.position,
+    positionMint: positionToken?.postMint ?? null,
+    tickLower: event?.tickLowerIndex ?? null,
+    tickUpper: event?.tickUpperIndex ?? null,
+    liquidityDelta: event?.liquidity ?? liquidity,
+    tokenA: getVaultTokenAmount(ins, block, action, accounts.tokenVaultA, event?.tokenAAmount),
+    tokenB: getVaultTokenAmount(ins, block, action, accounts.tokenVaultB, event?.tokenBAmount),
+  }
+}
+
+function decodeLiquidity(ins: Instruction) {
+  switch (getInstructionDescriptor(ins)) {
+    case whirlpool.instructions.increaseLiquidity.d8: {
+      const { accounts, data } = whirlpool.instructions.increaseLiquidity.decode(ins)
+      return { action: 'increase' as const, accounts, liquidity: data.liquidityAmount }
+    }
+    case whirlpool.instructions.increaseLiquidityV2.d8: {
+      const { accounts, data } = whirlpool.instructions.increaseLiquidityV2.decode(ins)
+      return { action: 'increase' as const, accounts, liquidity: data.liquidityAmount }
+    }
+    case whirlpool.instructions.decreaseLiquidity.d8: {
+      const { accounts, data } = whirlpool.instructions.decreaseLiquidity.decode(ins)
+      return { action: 'decrease' as const, accounts, liquidity: data.liquidityAmount }
+    }
+    default: {
+      const { accounts, data } = whirlpool.instructions.decreaseLiquidityV2.decode(ins)
+      return { action: 'decrease' as const, accounts, liquidity: data.liquidityAmount }
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as raydiumClmm from '../../../abi/raydium_clmm'
+import { type Block, type Instruction, getInstructionBalances, getInstructionEvents } from '../../../utils'
+import type { SolanaLiquidityChangeTransfer } from '../index'
+import { getVaultTokenAmount } from './utils'
+
+export function handleRaydiumClmmLiquidity(ins: Instruction, block: Block): SolanaLiquidityChangeTransfer {
+  const { action, accounts, liquidity } = decodeLiquidity(ins)
+  const [event] =
+    action === 'increase'
+      ? getInstructionEvents(ins, block, raydiumClmm.events.IncreaseLiquidityEvent).map((e) => ({
+          positionNftMint: e.positionNftMint,
+          liquidity: e.liquidity,
+          amount0: e.amount0,
+          amount1: e.amount1,
+        }))
+      : getInstructionEvents(ins, block, raydiumClmm.events.DecreaseLiquidityEvent).map((e) => ({
+          positionNftMint: e.positionNftMint,
+          liquidity: e.liquidity,
+          // Collected fees are reported separately and are not a part of the liquidity change
+          amount0: e.decreaseAmount0,
+          amount1: e.decreaseAmount1,
+        }))
+  // Tick range is only reported by the pool level event
+  const [liquidityChange] = getInstructionEvents(ins, block, raydiumClmm.events.LiquidityChangeEvent)
+
+  const nftToken = getInstructionBalances(ins, block).find((b) => b.account === accounts.nftAccount)
+
+  return {
+    type: 'raydium_clmm',
+    action,
+    account: accounts.nftOwner,
+    poolAddress: accounts.poolState,
+    position: accounts.personalPosition,
+    positionMint: event?.positionNftMint ?? nftToken?.postMint ?? null,
+    tickLower: liquidityChange?.tickLower ?? null,
+    tickUpper: liquidityChange?.tickUpper ?? null,
+    liquidityDelta: event?.liquidity ?? liquidity,
+    tokenA: getVaultTokenAmount(ins, block, action, accounts.tokenVault0, event?.amount0),
+    tokenB: getVaultTokenAmount(ins, block, action, accounts.tokenVault1, event?.amount1),
+  }
+}
+
+function decodeLiquidity(ins: Instruction) {
+  switch (getInstructionDescriptor(ins)) {
+    case raydiumClmm.instructions.increaseLiquidity.d8: {
+      const { accounts, data } = raydiumClmm.instructions.increaseLiquidity.decode(ins)
+      return { action: 'increase' as const, accounts, liquidity: data.liquidity }
+    }
+    case raydiumClmm.instructions.increaseLiquidityV2.d8: {
+      const { accounts, data } = raydiumClmm.instructions.increaseLiquidityV2.decode(ins)
+      return { action: 'increase' as const, accounts, liquidity: data.liquidity }
+    }
+    case raydiumClmm.instructions.decreaseLiquidity.d8: {
+      const { accounts, data } = raydiumClmm.instructions.decreaseLiquidity.decode(ins)
+      return { action: 'decrease' as const, accounts, liquidity: data.liquidity }
+    }
+    default: {
+      const { accounts, data } = raydiumClmm.instructions.decreaseLiquidityV2.decode(ins)
+      return { action: 'decrease' as const, accounts, liquidity: data.liquidity }
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { type Block, type Instruction, getDecodedInnerTransfers, getInstructionBalances } from '../../../utils'
+import type { TokenAmount } from '../../swaps'
+import type { SolanaLiquidityChangeTransfer } from '../index'
+
+/**
+ * Get the amount of tokens deposited to or withdrawn from a pool vault.
+ * The amount reported by the program event is preferred, inner transfers are used
+ * for blocks produced before the program started emitting events.
+ */
+export function getVaultTokenAmount(
+  ins: Instruction,
+  block: Block,
+  action: SolanaLiquidityChangeTransfer['action'],
+  vault: string,
+  eventAmount?: bigint,
+): TokenAmount {
+  const vaultBalance = getInstructionBalances(ins, block).find((b) => b.account === vault)
+  if (!vaultBalance) {
+    throw new Error(`Vault token balance not found: ${vault}`)
+  }
+
+  const amount =
+    eventAmount ??
+    getDecodedInnerTransfers(ins, block)
+      .filter((t) => (action === 'increase' ? t.accounts.destination === vault : t.accounts.source === vault))
+      .reduce((sum, t) => sum + t.data.amount, 0n)
+
+  return {
+    mint: vaultBalance.postMint,
+    amount,
+    decimals: vaultBalance.postDecimals,
+  }
+}
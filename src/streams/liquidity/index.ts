@@ -0,0 +1,192 @@
+import { BlockRef, OptionalArgs, PortalAbstractStream } from '@sqd-pipes/core'
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as whirlpool from '../../abi/orca_whirlpool/index'
+import * as raydium_clmm from '../../abi/raydium_clmm/index'
+import { getTransactionHash } from '../../utils'
+import type { TokenAmount } from '../swaps'
+import { handleWhirlpoolLiquidity } from './handlers/orca'
+import { handleRaydiumClmmLiquidity } from './handlers/raydium'
+
+export type LiquidityPoolType = 'orca_whirlpool' | 'raydium_clmm'
+
+export type SolanaLiquidityChange = {
+  id: string
+  type: LiquidityPoolType
+  action: 'increase' | 'decrease'
+  account: string
+  poolAddress: string
+  position: string
+  positionMint: string | null
+  tickLower: number | null
+  tickUpper: number | null
+  liquidityDelta: bigint
+  tokenA: TokenAmount
+  tokenB: TokenAmount
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+export type SolanaLiquidityChangeTransfer = Omit<
+  SolanaLiquidityChange,
+  'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'
+>
+
+export class SolanaLiquidityStream extends PortalAbstractStream<
+  SolanaLiquidityChange,
+  OptionalArgs<{
+    tokens?: string[]
+    type?: LiquidityPoolType[]
+  }>
+> {
+  async stream(): Promise<ReadableStream<SolanaLiquidityChange[]>> {
+    const { args } = this.options
+
+    const types: LiquidityPoolType[] = args?.type || ['orca_whirlpool', 'raydium_clmm']
+
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+        },
+        tokenBalance: {
+          transactionIndex: true,
+          account: true,
+          preMint: true,
+          postMint: true,
+          preAmount: true,
+          postAmount: true,
+          preDecimals: true,
+          postDecimals: true,
+        },
+        log: {
+          transactionIndex: true,
+          instructionAddress: true,
+          message: true,
+          logIndex: true,
+        },
+      },
+      instructions: types.map((type) => {
+        switch (type) {
+          case 'orca_whirlpool':
+            return {
+              programId: [whirlpool.programId],
+              d8: [
+                whirlpool.instructions.increaseLiquidity.d8,
+                whirlpool.instructions.increaseLiquidityV2.d8,
+                whirlpool.instructions.decreaseLiquidity.d8,
+                whirlpool.instructions.decreaseLiquidityV2.d8,
+              ],
+              isCommitted: true,
+              innerInstructions: true,
+              transaction: true,
+              transactionTokenBalances: true,
+              logs: true,
+            }
+          case 'raydium_clmm':
+            return {
+              programId: [raydium_clmm.programId],
+              d8: [
+                raydium_clmm.instructions.increaseLiquidity.d8,
+                raydium_clmm.instructions.increaseLiquidityV2.d8,
+                raydium_clmm.instructions.decreaseLiquidity.d8,
+                raydium_clmm.instructions.decreaseLiquidityV2.d8,
+              ],
+              isCommitted: true,
+              innerInstructions: true,
+              transaction: true,
+              transactionTokenBalances: true,
+              logs: true,
+            }
+        }
+      }),
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const changes: SolanaLiquidityChange[] = []
+
+            for (const ins of block.instructions) {
+              let change: SolanaLiquidityChangeTransfer | null = null
+
+              switch (ins.programId) {
+                case whirlpool.programId:
+                  switch (getInstructionDescriptor(ins)) {
+                    case whirlpool.instructions.increaseLiquidity.d8:
+                    case whirlpool.instructions.increaseLiquidityV2.d8:
+                    case whirlpool.instructions.decreaseLiquidity.d8:
+                    case whirlpool.instructions.decreaseLiquidityV2.d8:
+                      change = handleWhirlpoolLiquidity(ins, block)
+                      break
+                  }
+                  break
+                case raydium_clmm.programId:
+                  switch (getInstructionDescriptor(ins)) {
+                    case raydium_clmm.instructions.increaseLiquidity.d8:
+                    case raydium_clmm.instructions.increaseLiquidityV2.d8:
+                    case raydium_clmm.instructions.decreaseLiquidity.d8:
+                    case raydium_clmm.instructions.decreaseLiquidityV2.d8:
+                      change = handleRaydiumClmmLiquidity(ins, block)
+                      break
+                  }
+                  break
+              }
+
+              if (!change) continue
+              else if (
+                args?.tokens &&
+                !args?.tokens.includes(change.tokenA.mint) &&
+                !args?.tokens.includes(change.tokenB.mint)
+              ) {
+                continue
+              }
+
+              const txHash = getTransactionHash(ins, block)
+
+              changes.push({
+                ...change,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return changes
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
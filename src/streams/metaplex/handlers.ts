@@ -0,0 +1,185 @@
+import * as metaplex from '../../abi/metaplex'
+import type { CollectionToggle, Creator, Data, DataV2, UpdateArgs_AsUpdateAuthorityV2 } from '../../abi/metaplex/types'
+import type { Instruction } from '../../utils'
+import type { SolanaCollectionVerification, SolanaTokenMetadata } from './index'
+
+type MetadataChange = Omit<SolanaTokenMetadata, 'transaction' | 'instruction' | 'block'>
+type CollectionVerificationChange = Omit<SolanaCollectionVerification, 'transaction' | 'instruction' | 'block'>
+
+/**
+ * Legacy createMetadataAccount, createMetadataAccountV2 and createMetadataAccountV3 instructions
+ */
+export function getCreate(
+  accounts: { metadata: string; mint: string; updateAuthority: string },
+  args: { data: Data | DataV2; isMutable: boolean },
+): MetadataChange {
+  return {
+    type: 'create',
+    account: accounts.metadata,
+    mint: accounts.mint,
+    updateAuthority: accounts.updateAuthority,
+    ...getData(args.data),
+    collection: 'collection' in args.data ? (args.data.collection?.key ?? null) : null,
+    isMutable: args.isMutable,
+    primarySaleHappened: false,
+  }
+}
+
+/**
+ * Legacy updateMetadataAccount and updateMetadataAccountV2 instructions
+ */
+export function getUpdate(
+  accounts: { metadata: string; updateAuthority: string },
+  args: {
+    data?: Data | DataV2
+    updateAuthority?: string
+    primarySaleHappened?: boolean
+    isMutable?: boolean
+  },
+): MetadataChange {
+  return {
+    type: 'update',
+    account: accounts.metadata,
+    // The instruction is signed by the current authority, the args hold the new one if it's transferred
+    updateAuthority: args.updateAuthority ?? accounts.updateAuthority,
+    ...(args.data ? getData(args.data) : {}),
+    // Unlike the modern update, the whole data including the collection is replaced
+    collection: args.data && 'collection' in args.data ? (args.data.collection?.key ?? null) : undefined,
+    isMutable: args.isMutable,
+    primarySaleHappened: args.primarySaleHappened,
+  }
+}
+
+export function getAssetCreate(ins: Instruction): MetadataChange {
+  const {
+    accounts,
+    data: { createArgs },
+  } = metaplex.instructions.create.decode(ins)
+  const { assetData } = createArgs.value
+
+  return {
+    type: 'create',
+    account: accounts.metadata,
+    mint: accounts.mint,
+    updateAuthority: accounts.updateAuthority,
+    ...getData(assetData),
+    tokenStandard: assetData.tokenStandard.kind,
+    collection: assetData.collection?.key ?? null,
+    isMutable: assetData.isMutable,
+    primarySaleHappened: assetData.primarySaleHappened,
+  }
+}
+
+/**
+ * The modern update instruction can be signed by the update authority or one of the delegates,
+ * and each of them is only allowed to change some of the fields
+ */
+export function getAssetUpdate(ins: Instruction): MetadataChange {
+  const {
+    accounts,
+    data: { updateArgs },
+  } = metaplex.instructions.update.decode(ins)
+  // Every kind of args holds a subset of the fields the update authority is allowed to change
+  const args = updateArgs.value as Partial<UpdateArgs_AsUpdateAuthorityV2>
+
+  return {
+    type: 'update',
+    account: accounts.metadata,
+    mint: accounts.mint,
+    updateAuthority: args.newUpdateAuthority,
+    ...(args.data ? getData(args.data) : {}),
+    tokenStandard: args.tokenStandard?.kind,
+    collection: args.collection ? getCollection(args.collection) : undefined,
+    isMutable: args.isMutable,
+    primarySaleHappened: args.primarySaleHappened,
+  }
+}
+
+/**
+ * Collection verification instructions, the modern verify and unverify also verify creators,
+ * which are not tracked here
+ */
+export function getCollectionVerification(ins: Instruction, d1: string): CollectionVerificationChange | null {
+  switch (d1) {
+    case metaplex.instructions.verifyCollection.d1: {
+      const { accounts } = metaplex.instructions.verifyCollection.decode(ins)
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.collectionAuthority, true)
+    }
+    case metaplex.instructions.verifySizedCollectionItem.d1: {
+      const { accounts } = metaplex.instructions.verifySizedCollectionItem.decode(ins)
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.collectionAuthority, true)
+    }
+    case metaplex.instructions.unverifyCollection.d1: {
+      const { accounts } = metaplex.instructions.unverifyCollection.decode(ins)
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.collectionAuthority, false)
+    }
+    case metaplex.instructions.unverifySizedCollectionItem.d1: {
+      const { accounts } = metaplex.instructions.unverifySizedCollectionItem.decode(ins)
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.collectionAuthority, false)
+    }
+    case metaplex.instructions.setAndVerifyCollection.d1: {
+      const { accounts } = metaplex.instructions.setAndVerifyCollection.decode(ins)
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.collectionAuthority, true)
+    }
+    case metaplex.instructions.setAndVerifySizedCollectionItem.d1: {
+      const { accounts } = metaplex.instructions.setAndVerifySizedCollectionItem.decode(ins)
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.collectionAuthority, true)
+    }
+    case metaplex.instructions.verify.d1: {
+      const { accounts, data } = metaplex.instructions.verify.decode(ins)
+      if (data.verificationArgs.kind !== 'CollectionV1') return null
+
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.authority, true)
+    }
+    case metaplex.instructions.unverify.d1: {
+      const { accounts, data } = metaplex.instructions.unverify.decode(ins)
+      if (data.verificationArgs.kind !== 'CollectionV1') return null
+
+      return toVerification(accounts.metadata, accounts.collectionMint, accounts.authority, false)
+    }
+  }
+
+  return null
+}
+
+function toVerification(
+  account: string,
+  collectionMint: string,
+  authority: string,
+  verified: boolean,
+): CollectionVerificationChange {
+  return {
+    type: 'collection_verification',
+    account,
+    collectionMint,
+    authority,
+    verified,
+  }
+}
+
+function getData(data: {
+  name: string
+  symbol: string
+  uri: string
+  sellerFeeBasisPoints: number
+  creators?: Creator[]
+}) {
+  return {
+    name: data.name,
+    symbol: data.symbol,
+    uri: data.uri,
+    sellerFeeBasisPoints: data.sellerFeeBasisPoints,
+    creators: data.creators ?? [],
+  }
+}
+
+function getCollection(toggle: CollectionToggle): string | null | undefined {
+  switch (toggle.kind) {
+    case 'Set':
+      return toggle.value[0].key
+    case 'Clear':
+      return null
+    default:
+      return undefined
+  }
+}
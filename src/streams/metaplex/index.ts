@@ -1,20 +1,50 @@
 import { BlockRef, PortalAbstractStream, TransactionRef } from '@sqd-pipes/core'
 import * as metaplex from '../../abi/metaplex'
+import type { Creator } from '../../abi/metaplex/types'
 import { getInstructionD1, getTransactionHash } from '../../utils'
+import { getAssetCreate, getAssetUpdate, getCollectionVerification, getCreate, getUpdate } from './handlers'
 
+/**
+ * Creates set every field, updates only carry the fields they change and leave the rest undefined
+ */
 export type SolanaTokenMetadata = {
+  type: 'create' | 'update'
   account: string
-  mint: string
-  name: string
-  symbol: string
-  uri: string
-  isMutable: boolean
+  mint?: string
+  updateAuthority?: string
+  name?: string
+  symbol?: string
+  uri?: string
+  sellerFeeBasisPoints?: number
+  creators?: Creator[]
+  // Only set by the modern create and update instructions
+  tokenStandard?: string
+  // Collection mint, null if the token doesn't belong to a collection
+  collection?: string | null
+  isMutable?: boolean
+  primarySaleHappened?: boolean
   transaction: TransactionRef
+  instruction: { address: number[] }
   block: BlockRef
 }
 
-export class SolanaMetaplexStream extends PortalAbstractStream<SolanaTokenMetadata> {
-  async stream(): Promise<ReadableStream<SolanaTokenMetadata[]>> {
+export type SolanaCollectionVerification = {
+  type: 'collection_verification'
+  account: string
+  collectionMint: string
+  authority: string
+  verified: boolean
+  transaction: TransactionRef
+  instruction: { address: number[] }
+  block: BlockRef
+}
+
+export type SolanaMetaplexEvent = SolanaTokenMetadata | SolanaCollectionVerification
+
+type WithoutRefs<T> = T extends SolanaMetaplexEvent ? Omit<T, 'transaction' | 'instruction' | 'block'> : never
+
+export class SolanaMetaplexStream extends PortalAbstractStream<SolanaMetaplexEvent> {
+  async stream(): Promise<ReadableStream<SolanaMetaplexEvent[]>> {
     const source = await this.getStream({
       type: 'solana',
       fields: {
@@ -50,6 +80,16 @@ export class SolanaMetaplexStream extends PortalAbstractStream<SolanaTokenMetada
             metaplex.instructions.createMetadataAccountV3.d1,
             metaplex.instructions.updateMetadataAccount.d1,
             metaplex.instructions.updateMetadataAccountV2.d1,
+            metaplex.instructions.create.d1,
+            metaplex.instructions.update.d1,
+            metaplex.instructions.verifyCollection.d1,
+            metaplex.instructions.unverifyCollection.d1,
+            metaplex.instructions.setAndVerifyCollection.d1,
+            metaplex.instructions.verifySizedCollectionItem.d1,
+            metaplex.instructions.unverifySizedCollectionItem.d1,
+            metaplex.instructions.setAndVerifySizedCollectionItem.d1,
+            metaplex.instructions.verify.d1,
+            metaplex.instructions.unverify.d1,
           ],
           isCommitted: true, // where successfully committed
           innerInstructions: true, // inner instructions
@@ -62,81 +102,72 @@ export class SolanaMetaplexStream extends PortalAbstractStream<SolanaTokenMetada
     return source.pipeThrough(
       new TransformStream({
         transform: ({ blocks }, controller) => {
-          // FIXME
           const res = blocks.flatMap((block: any) => {
             if (!block.instructions) return []
 
-            const metadata: SolanaTokenMetadata[] = []
+            const metadata: SolanaMetaplexEvent[] = []
 
             for (const ins of block.instructions) {
               if (ins.programId !== metaplex.programId) {
                 continue
               }
 
-              const desc = getInstructionD1(ins)
+              const d1 = getInstructionD1(ins)
+              let change: WithoutRefs<SolanaMetaplexEvent> | null = null
 
-              switch (desc) {
+              switch (d1) {
                 case metaplex.instructions.createMetadataAccount.d1: {
                   const md = metaplex.instructions.createMetadataAccount.decode(ins)
-                  return {
-                    account: md.accounts.metadata,
-                    mint: md.accounts.mint,
-                    name: md.data.createMetadataAccountArgs.data.name,
-                    symbol: md.data.createMetadataAccountArgs.data.symbol,
-                    uri: md.data.createMetadataAccountArgs.data.uri,
-                    isMutable: md.data.createMetadataAccountArgs.isMutable,
-                    transaction: {
-                      hash: getTransactionHash(ins, block),
-                      index: ins.transactionIndex,
-                    },
-                    block: {
-                      number: block.header.number,
-                      hash: block.header.hash,
-                      timestamp: block.header.timestamp,
-                    },
-                  }
+                  change = getCreate(md.accounts, md.data.createMetadataAccountArgs)
+                  break
                 }
                 case metaplex.instructions.createMetadataAccountV2.d1: {
                   const md = metaplex.instructions.createMetadataAccountV2.decode(ins)
-                  return {
-                    account: md.accounts.metadata,
-                    mint: md.accounts.mint,
-                    name: md.data.createMetadataAccountArgsV2.data.name,
-                    symbol: md.data.createMetadataAccountArgsV2.data.symbol,
-                    uri: md.data.createMetadataAccountArgsV2.data.uri,
-                    isMutable: md.data.createMetadataAccountArgsV2.isMutable,
-                    transaction: {
-                      hash: getTransactionHash(ins, block),
-                      index: ins.transactionIndex,
-                    },
-                    block: {
-                      number: block.header.number,
-                      hash: block.header.hash,
-                      timestamp: block.header.timestamp,
-                    },
-                  }
+                  change = getCreate(md.accounts, md.data.createMetadataAccountArgsV2)
+                  break
                 }
                 case metaplex.instructions.createMetadataAccountV3.d1: {
                   const md = metaplex.instructions.createMetadataAccountV3.decode(ins)
-                  return {
-                    account: md.accounts.metadata,
-                    mint: md.accounts.mint,
-                    name: md.data.createMetadataAccountArgsV3.data.name,
-                    symbol: md.data.createMetadataAccountArgsV3.data.symbol,
-                    uri: md.data.createMetadataAccountArgsV3.data.uri,
-                    isMutable: md.data.createMetadataAccountArgsV3.isMutable,
-                    transaction: {
-                      hash: getTransactionHash(ins, block),
-                      index: ins.transactionIndex,
-                    },
-                    block: {
-                      number: block.header.number,
-                      hash: block.header.hash,
-                      timestamp: block.header.timestamp,
-                    },
-                  }
+                  change = getCreate(md.accounts, md.data.createMetadataAccountArgsV3)
+                  break
+                }
+                case metaplex.instructions.updateMetadataAccount.d1: {
+                  const md = metaplex.instructions.updateMetadataAccount.decode(ins)
+                  change = getUpdate(md.accounts, md.data.updateMetadataAccountArgs)
+                  break
+                }
+                case metaplex.instructions.updateMetadataAccountV2.d1: {
+                  const md = metaplex.instructions.updateMetadataAccountV2.decode(ins)
+                  change = getUpdate(md.accounts, md.data.updateMetadataAccountArgsV2)
+                  break
                 }
+                case metaplex.instructions.create.d1:
+                  change = getAssetCreate(ins)
+                  break
+                case metaplex.instructions.update.d1:
+                  change = getAssetUpdate(ins)
+                  break
+                default:
+                  change = getCollectionVerification(ins, d1)
               }
+
+              if (!change) continue
+
+              metadata.push({
+                ...change,
+                transaction: {
+                  hash: getTransactionHash(ins, block),
+                  index: ins.transactionIndex,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+              })
             }
 
             return metadata
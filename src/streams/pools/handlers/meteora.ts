@@ -0,0 +1,88 @@
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as meteoraDamm from '../../../abi/meteora_damm'
+import * as meteoraDlmm from '../../../abi/meteora_dlmm'
+import { type Block, type Instruction, getInstructionCpiEvents } from '../../../utils'
+import type { SolanaPoolCreation } from '../index'
+
+export function handleMeteoraDlmmPool(ins: Instruction, block: Block): SolanaPoolCreation {
+  const { accounts, binStep, feeConfigAccount } = decodeLbPair(ins)
+  // initializeLbPair2 takes the bin step from the preset parameter account, the event reports it in any case
+  const [lbPairCreate] = getInstructionCpiEvents(ins, block, meteoraDlmm.events.LbPairCreate)
+
+  return {
+    type: 'meteora_dlmm',
+    poolAddress: accounts.lbPair,
+    tokenA: accounts.tokenMintX,
+    tokenB: accounts.tokenMintY,
+    tokenAVault: accounts.reserveX,
+    tokenBVault: accounts.reserveY,
+    feeConfigAccount,
+    tickSpacing: null,
+    binStep: lbPairCreate?.binStep ?? binStep,
+    creator: accounts.funder,
+  }
+}
+
+function decodeLbPair(ins: Instruction) {
+  switch (getInstructionDescriptor(ins)) {
+    case meteoraDlmm.instructions.initializeLbPair.d8: {
+      const { accounts, data } = meteoraDlmm.instructions.initializeLbPair.decode(ins)
+      return { accounts, binStep: data.binStep, feeConfigAccount: accounts.presetParameter }
+    }
+    case meteoraDlmm.instructions.initializeLbPair2.d8: {
+      const { accounts } = meteoraDlmm.instructions.initializeLbPair2.decode(ins)
+      return { accounts, binStep: null, feeConfigAccount: accounts.presetParameter }
+    }
+    case meteoraDlmm.instructions.initializeCustomizablePermissionlessLbPair.d8: {
+      const { accounts, data } = meteoraDlmm.instructions.initializeCustomizablePermissionlessLbPair.decode(ins)
+      return { accounts, binStep: data.params.binStep, feeConfigAccount: null }
+    }
+    default: {
+      const { accounts, data } = meteoraDlmm.instructions.initializeCustomizablePermissionlessLbPair2.decode(ins)
+      return { accounts, binStep: data.params.binStep, feeConfigAccount: null }
+    }
+  }
+}
+
+export function handleMeteoraDammPool(ins: Instruction): SolanaPoolCreation {
+  const { accounts, feeConfigAccount } = decodePool(ins)
+
+  return {
+    type: 'meteora_damm',
+    poolAddress: accounts.pool,
+    tokenA: accounts.tokenAMint,
+    tokenB: accounts.tokenBMint,
+    // DAMM pools keep liquidity in Meteora vaults shared between pools
+    tokenAVault: accounts.aVault,
+    tokenBVault: accounts.bVault,
+    feeConfigAccount,
+    tickSpacing: null,
+    binStep: null,
+    creator: accounts.payer,
+  }
+}
+
+function decodePool(ins: Instruction) {
+  switch (getInstructionDescriptor(ins)) {
+    case meteoraDamm.instructions.initializePermissionlessPool.d8: {
+      const { accounts } = meteoraDamm.instructions.initializePermissionlessPool.decode(ins)
+      return { accounts, feeConfigAccount: null }
+    }
+    case meteoraDamm.instructions.initializePermissionlessPoolWithFeeTier.d8: {
+      const { accounts } = meteoraDamm.instructions.initializePermissionlessPoolWithFeeTier.decode(ins)
+      return { accounts, feeConfigAccount: null }
+    }
+    case meteoraDamm.instructions.initializePermissionlessConstantProductPoolWithConfig.d8: {
+      const { accounts } = meteoraDamm.instructions.initializePermissionlessConstantProductPoolWithConfig.decode(ins)
+      return { accounts, feeConfigAccount: accounts.config }
+    }
+    case meteoraDamm.instructions.initializePermissionlessConstantProductPoolWithConfig2.d8: {
+      const { accounts } = meteoraDamm.instructions.initializePermissionlessConstantProductPoolWithConfig2.decode(ins)
+      return { accounts, feeConfigAccount: accounts.config }
+    }
+    default: {
+      const { accounts } = meteoraDamm.instructions.initializeCustomizablePermissionlessConstantProductPool.decode(ins)
+      return { accounts, feeConfigAccount: null }
+    }
+  }
+}
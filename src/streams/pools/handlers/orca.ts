@@ -0,0 +1,24 @@
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as whirlpool from '../../../abi/orca_whirlpool'
+import type { Instruction } from '../../../utils'
+import type { SolanaPoolCreation } from '../index'
+
+export function handleWhirlpoolPool(ins: Instruction): SolanaPoolCreation {
+  const { accounts, data } =
+    getInstructionDescriptor(ins) === whirlpool.instructions.initializePool.d8
+      ? whirlpool.instructions.initializePool.decode(ins)
+      : whirlpool.instructions.initializePoolV2.decode(ins)
+
+  return {
+    type: 'orca_whirlpool',
+    poolAddress: accounts.whirlpool,
+    tokenA: accounts.tokenMintA,
+    tokenB: accounts.tokenMintB,
+    tokenAVault: accounts.tokenVaultA,
+    tokenBVault: accounts.tokenVaultB,
+    feeConfigAccount: accounts.feeTier,
+    tickSpacing: data.tickSpacing,
+    binStep: null,
+    creator: accounts.funder,
+  }
+}
@@ -0,0 +1,40 @@
+import * as raydiumClmm from '../../../abi/raydium_clmm'
+import * as raydiumCpmm from '../../../abi/raydium_cpmm'
+import { type Block, type Instruction, getInstructionEvents } from '../../../utils'
+import type { SolanaPoolCreation } from '../index'
+
+export function handleRaydiumClmmPool(ins: Instruction, block: Block): SolanaPoolCreation {
+  const { accounts } = raydiumClmm.instructions.createPool.decode(ins)
+  // Tick spacing is a part of the AMM config, but it is also reported by the pool creation event
+  const [poolCreated] = getInstructionEvents(ins, block, raydiumClmm.events.PoolCreatedEvent)
+
+  return {
+    type: 'raydium_clmm',
+    poolAddress: accounts.poolState,
+    tokenA: accounts.tokenMint0,
+    tokenB: accounts.tokenMint1,
+    tokenAVault: accounts.tokenVault0,
+    tokenBVault: accounts.tokenVault1,
+    feeConfigAccount: accounts.ammConfig,
+    tickSpacing: poolCreated?.tickSpacing ?? null,
+    binStep: null,
+    creator: accounts.poolCreator,
+  }
+}
+
+export function handleRaydiumCpmmPool(ins: Instruction): SolanaPoolCreation {
+  const { accounts } = raydiumCpmm.instructions.initialize.decode(ins)
+
+  return {
+    type: 'raydium_cpmm',
+    poolAddress: accounts.poolState,
+    tokenA: accounts.token0Mint,
+    tokenB: accounts.token1Mint,
+    tokenAVault: accounts.token0Vault,
+    tokenBVault: accounts.token1Vault,
+    feeConfigAccount: accounts.ammConfig,
+    tickSpacing: null,
+    binStep: null,
+    creator: accounts.creator,
+  }
+}
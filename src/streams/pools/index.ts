@@ -0,0 +1,222 @@
+import { BlockRef, OptionalArgs, PortalAbstractStream } from '@sqd-pipes/core'
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as meteora_damm from '../../abi/meteora_damm/index'
+import * as meteora_dlmm from '../../abi/meteora_dlmm/index'
+import * as whirlpool from '../../abi/orca_whirlpool/index'
+import * as raydium_clmm from '../../abi/raydium_clmm/index'
+import * as raydium_cpmm from '../../abi/raydium_cpmm/index'
+import { getTransactionHash } from '../../utils'
+import type { SwapType } from '../swaps'
+import { handleMeteoraDammPool, handleMeteoraDlmmPool } from './handlers/meteora'
+import { handleWhirlpoolPool } from './handlers/orca'
+import { handleRaydiumClmmPool, handleRaydiumCpmmPool } from './handlers/raydium'
+
+export type PoolType = Extract<
+  SwapType,
+  'orca_whirlpool' | 'meteora_damm' | 'meteora_dlmm' | 'raydium_clmm' | 'raydium_cpmm'
+>
+
+export type SolanaPool = {
+  id: string
+  type: PoolType
+  poolAddress: string
+  tokenA: string
+  tokenB: string
+  tokenAVault: string
+  tokenBVault: string
+  /**
+   * Account holding the fee settings of the pool,
+   * i.e., fee tier, AMM config or preset parameters
+   */
+  feeConfigAccount: string | null
+  tickSpacing: number | null
+  binStep: number | null
+  creator: string
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+export type SolanaPoolCreation = Omit<SolanaPool, 'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'>
+
+const ORCA_POOL_INSTRUCTIONS = [whirlpool.instructions.initializePool.d8, whirlpool.instructions.initializePoolV2.d8]
+
+const RAYDIUM_CLMM_POOL_INSTRUCTIONS = [raydium_clmm.instructions.createPool.d8]
+
+const RAYDIUM_CPMM_POOL_INSTRUCTIONS = [raydium_cpmm.instructions.initialize.d8]
+
+const METEORA_DLMM_POOL_INSTRUCTIONS = [
+  meteora_dlmm.instructions.initializeLbPair.d8,
+  meteora_dlmm.instructions.initializeLbPair2.d8,
+  meteora_dlmm.instructions.initializeCustomizablePermissionlessLbPair.d8,
+  meteora_dlmm.instructions.initializeCustomizablePermissionlessLbPair2.d8,
+]
+
+const METEORA_DAMM_POOL_INSTRUCTIONS = [
+  meteora_damm.instructions.initializePermissionlessPool.d8,
+  meteora_damm.instructions.initializePermissionlessPoolWithFeeTier.d8,
+  meteora_damm.instructions.initializePermissionlessConstantProductPoolWithConfig.d8,
+  meteora_damm.instructions.initializePermissionlessConstantProductPoolWithConfig2.d8,
+  meteora_damm.instructions.initializeCustomizablePermissionlessConstantProductPool.d8,
+]
+
+export class SolanaPoolsStream extends PortalAbstractStream<
+  SolanaPool,
+  OptionalArgs<{
+    type?: PoolType[]
+  }>
+> {
+  async stream(): Promise<ReadableStream<SolanaPool[]>> {
+    const { args } = this.options
+
+    const types: PoolType[] = args?.type || [
+      'orca_whirlpool',
+      'meteora_damm',
+      'meteora_dlmm',
+      'raydium_clmm',
+      'raydium_cpmm',
+    ]
+
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+        },
+        log: {
+          transactionIndex: true,
+          instructionAddress: true,
+          message: true,
+          logIndex: true,
+        },
+      },
+      instructions: types.map((type) => {
+        switch (type) {
+          case 'orca_whirlpool':
+            return {
+              programId: [whirlpool.programId],
+              d8: ORCA_POOL_INSTRUCTIONS,
+              isCommitted: true,
+              transaction: true,
+            }
+          case 'meteora_damm':
+            return {
+              programId: [meteora_damm.programId],
+              d8: METEORA_DAMM_POOL_INSTRUCTIONS,
+              isCommitted: true,
+              transaction: true,
+            }
+          case 'meteora_dlmm':
+            return {
+              programId: [meteora_dlmm.programId],
+              d8: METEORA_DLMM_POOL_INSTRUCTIONS,
+              isCommitted: true,
+              // LbPairCreate event is emitted through a self CPI
+              innerInstructions: true,
+              transaction: true,
+            }
+          case 'raydium_clmm':
+            return {
+              programId: [raydium_clmm.programId],
+              d8: RAYDIUM_CLMM_POOL_INSTRUCTIONS,
+              isCommitted: true,
+              transaction: true,
+              logs: true,
+            }
+          case 'raydium_cpmm':
+            return {
+              programId: [raydium_cpmm.programId],
+              d8: RAYDIUM_CPMM_POOL_INSTRUCTIONS,
+              isCommitted: true,
+              transaction: true,
+            }
+        }
+      }),
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const pools: SolanaPool[] = []
+
+            for (const ins of block.instructions) {
+              const descriptor = getInstructionDescriptor(ins)
+              let pool: SolanaPoolCreation | null = null
+
+              switch (ins.programId) {
+                case whirlpool.programId:
+                  if (ORCA_POOL_INSTRUCTIONS.includes(descriptor)) {
+                    pool = handleWhirlpoolPool(ins)
+                  }
+                  break
+                case meteora_damm.programId:
+                  if (METEORA_DAMM_POOL_INSTRUCTIONS.includes(descriptor)) {
+                    pool = handleMeteoraDammPool(ins)
+                  }
+                  break
+                case meteora_dlmm.programId:
+                  if (METEORA_DLMM_POOL_INSTRUCTIONS.includes(descriptor)) {
+                    pool = handleMeteoraDlmmPool(ins, block)
+                  }
+                  break
+                case raydium_clmm.programId:
+                  if (RAYDIUM_CLMM_POOL_INSTRUCTIONS.includes(descriptor)) {
+                    pool = handleRaydiumClmmPool(ins, block)
+                  }
+                  break
+                case raydium_cpmm.programId:
+                  if (RAYDIUM_CPMM_POOL_INSTRUCTIONS.includes(descriptor)) {
+                    pool = handleRaydiumCpmmPool(ins)
+                  }
+                  break
+              }
+
+              if (!pool) continue
+
+              const txHash = getTransactionHash(ins, block)
+
+              pools.push({
+                ...pool,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return pools
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
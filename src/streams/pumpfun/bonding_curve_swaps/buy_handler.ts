@@ -1,34 +1,46 @@
+import type { Logger } from '@sqd-pipes/core'
 import * as pumpfun from '../../../abi/pumpfun'
 import type { TradeEvent } from '../../../abi/pumpfun/types'
 import { type Block, type Instruction, getInstructionLogs } from '../../../utils'
 import type { PumpfunSwapTransaction } from './index'
-import { getVirtualTokenPrice } from './utils'
+import { SOL_TOKEN, getBaseToken, getVirtualTokenPrice } from './utils'
 
-export function handlePumpfunBuy(ins: Instruction, block: Block): PumpfunSwapTransaction | null {
-  const {
-    accounts: { mint },
-  } = pumpfun.instructions.buy.decode(ins)
+export function handlePumpfunBuy(logger: Logger, ins: Instruction, block: Block): PumpfunSwapTransaction | null {
+  const { accounts } = pumpfun.instructions.buy.decode(ins)
   const buyEvent = getBuyEvent(ins, block)
 
   if (!buyEvent) return null
 
-  const { user, solAmount, tokenAmount, virtualSolReserves, virtualTokenReserves } = buyEvent
+  const {
+    user,
+    solAmount,
+    tokenAmount,
+    timestamp,
+    virtualSolReserves,
+    virtualTokenReserves,
+    realSolReserves,
+    realTokenReserves,
+  } = buyEvent
 
   return {
     account: user,
     type: 'buy',
     baseToken: {
       amount: tokenAmount,
-      token: { postMint: mint, postDecimals: 6 },
+      token: getBaseToken(logger, ins, block, accounts),
     },
     quoteToken: {
       amount: solAmount,
-      token: {
-        postMint: 'So11111111111111111111111111111111111111112',
-        postDecimals: 9,
-      },
+      token: SOL_TOKEN,
     },
+    eventTimestamp: new Date(Number(timestamp) * 1000),
     tokenPrice: getVirtualTokenPrice(virtualSolReserves, virtualTokenReserves),
+    reserves: {
+      virtualSol: virtualSolReserves,
+      virtualToken: virtualTokenReserves,
+      realSol: realSolReserves,
+      realToken: realTokenReserves,
+    },
   }
 }
 
@@ -6,6 +6,16 @@ import { getTransactionHash } from '../../../utils'
 import { handlePumpfunBuy } from './buy_handler'
 import { handlePumpfunSell } from './sell_handler'
 
+/**
+ * Bonding curve reserves after the trade, as reported by the TradeEvent
+ */
+export type PumpfunBondingCurveReserves = {
+  virtualSol: bigint
+  virtualToken: bigint
+  realSol: bigint
+  realToken: bigint
+}
+
 export type PumpfunSwap = {
   id: string
   type: 'sell' | 'buy'
@@ -24,7 +34,10 @@ export type PumpfunSwap = {
   instruction: { address: number[] }
   block: BlockRef
   timestamp: Date
+  // Time reported by the TradeEvent
+  eventTimestamp: Date
   tokenPrice: bigint
+  reserves: PumpfunBondingCurveReserves
 }
 
 export type PumpfunSwapTransaction = {
@@ -38,7 +51,9 @@ export type PumpfunSwapTransaction = {
     amount: bigint
     token: { postMint: string; postDecimals: number }
   }
+  eventTimestamp: Date
   tokenPrice: bigint
+  reserves: PumpfunBondingCurveReserves
 }
 
 const ALL_FIELDS = {
@@ -130,10 +145,10 @@ export class PumpfunBuysAndSellsStream extends PortalAbstractStream<
 
               switch (getInstructionDescriptor(ins)) {
                 case pumpfun.instructions.buy.d8:
-                  swap = handlePumpfunBuy(ins, block)
+                  swap = handlePumpfunBuy(this.logger, ins, block)
                   break
                 case pumpfun.instructions.sell.d8:
-                  swap = handlePumpfunSell(ins, block)
+                  swap = handlePumpfunSell(this.logger, ins, block)
                   break
               }
 
@@ -176,7 +191,9 @@ export class PumpfunBuysAndSellsStream extends PortalAbstractStream<
                   index: ins.transactionIndex,
                 },
                 timestamp: new Date(block.header.timestamp * 1000),
+                eventTimestamp: swap.eventTimestamp,
                 tokenPrice: swap.tokenPrice,
+                reserves: swap.reserves,
               })
             }
 
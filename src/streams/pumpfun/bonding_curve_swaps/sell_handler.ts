@@ -1,36 +1,48 @@
+import type { Logger } from '@sqd-pipes/core'
 import * as pumpfun from '../../../abi/pumpfun'
 import type { TradeEvent } from '../../../abi/pumpfun/types'
 import { type Block, type Instruction, getInstructionLogs } from '../../../utils'
 import type { PumpfunSwapTransaction } from './index'
-import { getVirtualTokenPrice } from './utils'
+import { SOL_TOKEN, getBaseToken, getVirtualTokenPrice } from './utils'
 
-export function handlePumpfunSell(ins: Instruction, block: Block): PumpfunSwapTransaction | null {
-  const {
-    accounts: { mint },
-  } = pumpfun.instructions.sell.decode(ins)
+export function handlePumpfunSell(logger: Logger, ins: Instruction, block: Block): PumpfunSwapTransaction | null {
+  const { accounts } = pumpfun.instructions.sell.decode(ins)
   const sellEvent = getSellEvent(ins, block)
 
   if (!sellEvent) {
     return null
   }
 
-  const { user, solAmount, tokenAmount, virtualSolReserves, virtualTokenReserves } = sellEvent
+  const {
+    user,
+    solAmount,
+    tokenAmount,
+    timestamp,
+    virtualSolReserves,
+    virtualTokenReserves,
+    realSolReserves,
+    realTokenReserves,
+  } = sellEvent
 
   return {
     account: user,
     type: 'sell',
     baseToken: {
       amount: tokenAmount,
-      token: { postMint: mint, postDecimals: 6 },
+      token: getBaseToken(logger, ins, block, accounts),
     },
     quoteToken: {
       amount: solAmount,
-      token: {
-        postMint: 'So11111111111111111111111111111111111111112',
-        postDecimals: 9,
-      },
+      token: SOL_TOKEN,
     },
+    eventTimestamp: new Date(Number(timestamp) * 1000),
     tokenPrice: getVirtualTokenPrice(virtualSolReserves, virtualTokenReserves),
+    reserves: {
+      virtualSol: virtualSolReserves,
+      virtualToken: virtualTokenReserves,
+      realSol: realSolReserves,
+      realToken: realTokenReserves,
+    },
   }
 }
 
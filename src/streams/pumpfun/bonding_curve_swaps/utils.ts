@@ -1,5 +1,47 @@
+import type { Logger } from '@sqd-pipes/core'
+import { type Block, type Instruction, getInstructionBalances, getTransactionHash } from '../../../utils'
+
 const SCALING_FACTOR = 10n ** 18n
 
+// pump.fun mints all tokens with 6 decimals and trades them against native SOL
+export const DEFAULT_TOKEN_DECIMALS = 6
+export const SOL_TOKEN = {
+  postMint: 'So11111111111111111111111111111111111111112',
+  postDecimals: 9,
+}
+
 export function getVirtualTokenPrice(virtualSolReserves: bigint, virtualTokenReserves: bigint) {
   return (virtualSolReserves * SCALING_FACTOR) / virtualTokenReserves
 }
+
+/**
+ * Get the traded token from the balance of the bonding curve token account,
+ * falling back to the instruction mint and default decimals if it's missing.
+ * The quote side is native SOL, which has no token balances to take it from.
+ */
+export function getBaseToken(
+  logger: Logger,
+  ins: Instruction,
+  block: Block,
+  { mint, associatedBondingCurve }: { mint: string; associatedBondingCurve: string },
+): { postMint: string; postDecimals: number } {
+  const balance = getInstructionBalances(ins, block).find((b) => b.account === associatedBondingCurve)
+
+  if (!balance || balance.postMint !== mint || balance.postDecimals !== DEFAULT_TOKEN_DECIMALS) {
+    logger.warn({
+      message: 'Pump.fun: bonding curve token balance differs from defaults',
+      tx: getTransactionHash(ins, block),
+      block_number: block.header.number,
+      mint,
+      balance_mint: balance?.postMint,
+      balance_decimals: balance?.postDecimals,
+      default_decimals: DEFAULT_TOKEN_DECIMALS,
+    })
+  }
+
+  if (!balance) {
+    return { postMint: mint, postDecimals: DEFAULT_TOKEN_DECIMALS }
+  }
+
+  return { postMint: balance.postMint, postDecimals: balance.postDecimals }
+}
@@ -0,0 +1,207 @@
+import { type BlockRef, PortalAbstractStream } from '@sqd-pipes/core'
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as pumpfun from '../../abi/pumpfun'
+import { type Block, type Instruction, getInstructionD1, getInstructionEvents, getTransactionHash } from '../../utils'
+import { pumpAmm, raydiumAmm } from './programs'
+
+type EventMeta = {
+  id: string
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+/**
+ * Bonding curve completed, the token can be migrated to an AMM
+ */
+export type PumpfunGraduation = EventMeta & {
+  type: 'graduation'
+  mint: string
+  bondingCurve: string
+  user: string
+  // Bonding curve reserves after the trade that completed it
+  virtualSolReserves: bigint
+  virtualTokenReserves: bigint
+  realSolReserves: bigint
+  realTokenReserves: bigint
+}
+
+export type PumpfunMigrationDex = 'pumpswap' | 'raydium_amm'
+
+/**
+ * Pool created on an AMM pump.fun tokens are migrated to.
+ * Graduated tokens are matched with the first pool created for them after the graduation.
+ */
+export type PumpfunMigrationPool = EventMeta & {
+  type: 'pool_creation'
+  dex: PumpfunMigrationDex
+  poolAddress: string
+  tokenA: string
+  tokenB: string
+  creator: string
+}
+
+export type PumpfunGraduationEvent = PumpfunGraduation | PumpfunMigrationPool
+
+type WithoutMeta<T> = T extends EventMeta ? Omit<T, keyof EventMeta> : never
+
+export class PumpfunGraduationsStream extends PortalAbstractStream<PumpfunGraduationEvent> {
+  async stream(): Promise<ReadableStream<PumpfunGraduationEvent[]>> {
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+        },
+        log: {
+          transactionIndex: true,
+          instructionAddress: true,
+          message: true,
+          logIndex: true,
+        },
+      },
+      instructions: [
+        {
+          // The curve is completed by the buy that takes the last tokens out of it
+          programId: [pumpfun.programId],
+          d8: [pumpfun.instructions.buy.d8],
+          isCommitted: true,
+          transaction: true,
+          logs: true,
+        },
+        {
+          programId: [pumpAmm.programId],
+          d8: [pumpAmm.instructions.createPool.d8],
+          isCommitted: true,
+          transaction: true,
+        },
+        {
+          programId: [raydiumAmm.programId],
+          d1: [raydiumAmm.instructions.initialize2.d1],
+          isCommitted: true,
+          transaction: true,
+        },
+      ],
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const events: PumpfunGraduationEvent[] = []
+
+            for (const ins of block.instructions) {
+              let event: WithoutMeta<PumpfunGraduationEvent> | null = null
+
+              switch (ins.programId) {
+                case pumpfun.programId:
+                  if (getInstructionDescriptor(ins) === pumpfun.instructions.buy.d8) {
+                    event = handleGraduation(ins, block)
+                  }
+                  break
+                case pumpAmm.programId:
+                  if (getInstructionDescriptor(ins) === pumpAmm.instructions.createPool.d8) {
+                    event = handlePumpAmmPool(ins)
+                  }
+                  break
+                case raydiumAmm.programId:
+                  if (getInstructionD1(ins) === raydiumAmm.instructions.initialize2.d1) {
+                    event = handleRaydiumAmmPool(ins)
+                  }
+                  break
+              }
+
+              if (!event) continue
+
+              const txHash = getTransactionHash(ins, block)
+
+              events.push({
+                ...event,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return events
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
+
+function handleGraduation(ins: Instruction, block: Block): WithoutMeta<PumpfunGraduation> | null {
+  const [completeEvent] = getInstructionEvents(ins, block, pumpfun.events.CompleteEvent)
+  if (!completeEvent) return null
+
+  // The trade event is logged before the complete event and holds the final reserves
+  const [tradeEvent] = getInstructionEvents(ins, block, pumpfun.events.TradeEvent)
+  if (!tradeEvent) return null
+
+  return {
+    type: 'graduation',
+    mint: completeEvent.mint,
+    bondingCurve: completeEvent.bondingCurve,
+    user: completeEvent.user,
+    virtualSolReserves: tradeEvent.virtualSolReserves,
+    virtualTokenReserves: tradeEvent.virtualTokenReserves,
+    realSolReserves: tradeEvent.realSolReserves,
+    realTokenReserves: tradeEvent.realTokenReserves,
+  }
+}
+
+function handlePumpAmmPool(ins: Instruction): WithoutMeta<PumpfunMigrationPool> {
+  const { accounts } = pumpAmm.instructions.createPool.decode(ins)
+
+  return {
+    type: 'pool_creation',
+    dex: 'pumpswap',
+    poolAddress: accounts.pool,
+    tokenA: accounts.baseMint,
+    tokenB: accounts.quoteMint,
+    creator: accounts.creator,
+  }
+}
+
+function handleRaydiumAmmPool(ins: Instruction): WithoutMeta<PumpfunMigrationPool> {
+  const { accounts } = raydiumAmm.instructions.initialize2.decode(ins)
+
+  return {
+    type: 'pool_creation',
+    dex: 'raydium_amm',
+    poolAddress: accounts.amm,
+    tokenA: accounts.coinMint,
+    tokenB: accounts.pcMint,
+    creator: accounts.userWallet,
+  }
+}
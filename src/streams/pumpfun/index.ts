@@ -1,2 +1,3 @@
 export * from './bonding_curve_swaps'
+export * from './graduations'
 export * from './token_creation'
@@ -0,0 +1,96 @@
+import { struct, u8, u16, u64 } from '@subsquid/borsh'
+import { instruction } from '../../abi/abi.support'
+
+/**
+ * Pool creation instructions of the programs tokens graduate to. The generated ABI doesn't cover
+ * these programs, so only the instructions needed to match migrations are written by hand.
+ */
+
+export interface CreatePool {
+  index: number
+  baseAmountIn: bigint
+  quoteAmountIn: bigint
+}
+
+export const createPool = instruction(
+  {
+    d8: '0xe992d18ecf6840bc',
+  },
+  {
+    pool: 0,
+    globalConfig: 1,
+    creator: 2,
+    baseMint: 3,
+    quoteMint: 4,
+    lpMint: 5,
+    userBaseTokenAccount: 6,
+    userQuoteTokenAccount: 7,
+    userPoolTokenAccount: 8,
+    poolBaseTokenAccount: 9,
+    poolQuoteTokenAccount: 10,
+    systemProgram: 11,
+    token2022Program: 12,
+    baseTokenProgram: 13,
+    quoteTokenProgram: 14,
+    associatedTokenProgram: 15,
+    eventAuthority: 16,
+    program: 17,
+  },
+  struct({
+    index: u16,
+    baseAmountIn: u64,
+    quoteAmountIn: u64,
+  }),
+)
+
+export const pumpAmm = {
+  programId: 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA',
+  instructions: { createPool },
+}
+
+export interface Initialize2 {
+  nonce: number
+  openTime: bigint
+  initPcAmount: bigint
+  initCoinAmount: bigint
+}
+
+export const initialize2 = instruction(
+  {
+    d1: '0x01',
+  },
+  {
+    tokenProgram: 0,
+    splAssociatedTokenAccount: 1,
+    systemProgram: 2,
+    rent: 3,
+    amm: 4,
+    ammAuthority: 5,
+    ammOpenOrders: 6,
+    lpMint: 7,
+    coinMint: 8,
+    pcMint: 9,
+    poolCoinTokenAccount: 10,
+    poolPcTokenAccount: 11,
+    poolWithdrawQueue: 12,
+    ammTargetOrders: 13,
+    poolTempLp: 14,
+    serumProgram: 15,
+    serumMarket: 16,
+    userWallet: 17,
+    userTokenCoin: 18,
+    userTokenPc: 19,
+    userLpTokenAccount: 20,
+  },
+  struct({
+    nonce: u8,
+    openTime: u64,
+    initPcAmount: u64,
+    initCoinAmount: u64,
+  }),
+)
+
+export const raydiumAmm = {
+  programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+  instructions: { initialize2 },
+}
@@ -1,6 +1,7 @@
 import { PortalAbstractStream } from '@sqd-pipes/core'
 import { getInstructionDescriptor } from '@subsquid/solana-stream'
 import * as pumpfun from '../../abi/pumpfun'
+import { getInstructionEvents, getTransactionHash } from '../../utils'
 
 export interface PumpfunTokenCreation {
   name: string
@@ -8,6 +9,11 @@ export interface PumpfunTokenCreation {
   uri: string
   deployTime: Date
   address: string
+  creator: string
+  bondingCurve: string
+  transactionHash: string
+  blockNumber: number
+  instructionAddress: number[]
 }
 
 export class SolanaPumpfunTokensStream extends PortalAbstractStream<PumpfunTokenCreation> {
@@ -31,6 +37,12 @@ export class SolanaPumpfunTokensStream extends PortalAbstractStream<PumpfunToken
           programId: true,
           accounts: true,
         },
+        log: {
+          transactionIndex: true,
+          instructionAddress: true,
+          message: true,
+          logIndex: true,
+        },
       },
       instructions: [
         {
@@ -38,6 +50,7 @@ export class SolanaPumpfunTokensStream extends PortalAbstractStream<PumpfunToken
           d8: [pumpfun.instructions.create.d8],
           isCommitted: true,
           transaction: true,
+          logs: true,
         },
       ],
     })
@@ -58,16 +71,26 @@ export class SolanaPumpfunTokensStream extends PortalAbstractStream<PumpfunToken
                 continue
               }
 
-              const token = pumpfun.instructions.create.decode(ins)
+              const { accounts, data } = pumpfun.instructions.create.decode(ins)
+              // The instruction accounts carry the same data in case the logs were truncated
+              const [createEvent] = getInstructionEvents(ins, block, pumpfun.events.CreateEvent)
+              const token = createEvent || { ...data, ...accounts }
 
-              if (!token.data.name || !token.data.symbol) {
+              if (!token.name || !token.symbol) {
                 continue
               }
 
               tokens.push({
-                ...token.data,
-                address: token.accounts.mint,
+                name: token.name,
+                symbol: token.symbol,
+                uri: token.uri,
+                address: token.mint,
+                creator: token.user,
+                bondingCurve: token.bondingCurve,
                 deployTime: new Date(block.header.timestamp * 1000),
+                transactionHash: getTransactionHash(ins, block),
+                blockNumber: block.header.number,
+                instructionAddress: ins.instructionAddress,
               })
             }
 
@@ -0,0 +1 @@
+export * from './lp_changes'
@@ -0,0 +1,208 @@
+import { BlockRef, PortalAbstractStream } from '@sqd-pipes/core'
+import { getInstructionDescriptor } from '@subsquid/solana-stream'
+import * as raydiumCpmm from '../../abi/raydium_cpmm'
+import {
+  type Block,
+  type Instruction,
+  getInstructionBalances,
+  getInstructionEvents,
+  getTransactionHash,
+} from '../../utils'
+import type { TokenAmount } from '../swaps'
+
+export type RaydiumCpmmLpChange = {
+  id: string
+  type: 'deposit' | 'withdraw'
+  account: string
+  poolAddress: string
+  lpMint: string
+  /**
+   * LP tokens minted on deposit or burned on withdraw
+   */
+  lpAmount: bigint
+  /**
+   * Amounts the account paid on deposit, including the token-2022 transfer fee, and received on withdraw,
+   * excluding it
+   */
+  token0: TokenAmount
+  token1: TokenAmount
+  /**
+   * Pool reserves exclude protocol and fund fees accumulated in the vaults
+   */
+  reservesBefore: { token0: bigint; token1: bigint }
+  reservesAfter: { token0: bigint; token1: bigint }
+  lpSupplyBefore: bigint
+  lpSupplyAfter: bigint
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+export class RaydiumCpmmLpChangesStream extends PortalAbstractStream<RaydiumCpmmLpChange> {
+  async stream(): Promise<ReadableStream<RaydiumCpmmLpChange[]>> {
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+        },
+        tokenBalance: {
+          transactionIndex: true,
+          account: true,
+          preMint: true,
+          postMint: true,
+          preDecimals: true,
+          postDecimals: true,
+        },
+        log: {
+          transactionIndex: true,
+          instructionAddress: true,
+          message: true,
+          logIndex: true,
+        },
+      },
+      instructions: [
+        {
+          programId: [raydiumCpmm.programId],
+          d8: [raydiumCpmm.instructions.deposit.d8, raydiumCpmm.instructions.withdraw.d8],
+          isCommitted: true,
+          transaction: true,
+          transactionTokenBalances: true,
+          logs: true,
+        },
+      ],
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const changes: RaydiumCpmmLpChange[] = []
+
+            for (const ins of block.instructions) {
+              if (ins.programId !== raydiumCpmm.programId) continue
+
+              let change: Omit<
+                RaydiumCpmmLpChange,
+                'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'
+              > | null = null
+
+              switch (getInstructionDescriptor(ins)) {
+                case raydiumCpmm.instructions.deposit.d8:
+                  change = handleLpChange(ins, block, 'deposit')
+                  break
+                case raydiumCpmm.instructions.withdraw.d8:
+                  change = handleLpChange(ins, block, 'withdraw')
+                  break
+              }
+
+              if (!change) continue
+
+              const txHash = getTransactionHash(ins, block)
+
+              changes.push({
+                ...change,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return changes
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
+
+function handleLpChange(ins: Instruction, block: Block, type: RaydiumCpmmLpChange['type']) {
+  const { accounts, data } =
+    type === 'deposit' ? raydiumCpmm.instructions.deposit.decode(ins) : raydiumCpmm.instructions.withdraw.decode(ins)
+  const [lpChangeEvent] = getInstructionEvents(ins, block, raydiumCpmm.events.LpChangeEvent)
+
+  // Amounts and reserves are only known from the event, which is missing if the logs were truncated
+  if (!lpChangeEvent) return null
+
+  const tokenBalances = getInstructionBalances(ins, block)
+  const token0Vault = tokenBalances.find((b) => b.account === accounts.token0Vault)
+  const token1Vault = tokenBalances.find((b) => b.account === accounts.token1Vault)
+  if (!token0Vault || !token1Vault) {
+    throw new Error('Raydium CPMM: vault token balances not found')
+  }
+
+  const {
+    lpAmountBefore,
+    token0VaultBefore,
+    token1VaultBefore,
+    token0Amount,
+    token1Amount,
+    token0TransferFee,
+    token1TransferFee,
+  } = lpChangeEvent
+
+  return {
+    type,
+    account: accounts.owner,
+    poolAddress: accounts.poolState,
+    lpMint: accounts.lpMint,
+    lpAmount: data.lpTokenAmount,
+    token0: {
+      mint: accounts.vault0Mint,
+      amount: token0Amount,
+      decimals: token0Vault.postDecimals,
+    },
+    token1: {
+      mint: accounts.vault1Mint,
+      amount: token1Amount,
+      decimals: token1Vault.postDecimals,
+    },
+    reservesBefore: {
+      token0: token0VaultBefore,
+      token1: token1VaultBefore,
+    },
+    // The token-2022 transfer fee is withheld on the way into the vault on deposit, and is paid out of the vault
+    // on top of the amount received on withdraw
+    reservesAfter:
+      type === 'deposit'
+        ? {
+            token0: token0VaultBefore + token0Amount - token0TransferFee,
+            token1: token1VaultBefore + token1Amount - token1TransferFee,
+          }
+        : {
+            token0: token0VaultBefore - token0Amount - token0TransferFee,
+            token1: token1VaultBefore - token1Amount - token1TransferFee,
+          },
+    lpSupplyBefore: lpAmountBefore,
+    lpSupplyAfter: type === 'deposit' ? lpAmountBefore + data.lpTokenAmount : lpAmountBefore - data.lpTokenAmount,
+  }
+}
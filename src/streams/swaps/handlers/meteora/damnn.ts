@@ -1,4 +1,5 @@
 import type { Logger } from '@sqd-pipes/core';
+import type { TokenBalance } from '@subsquid/solana-stream';
 import {
   type Block,
   type Instruction,
@@ -6,14 +7,18 @@ import {
   getInstructionD1,
   getTransactionHash,
 } from '../../../../utils';
+import * as meteoraDamm from '../../../../abi/meteora_damm';
 import * as tokenProgram from '../../../../abi/tokenProgram';
-import type { SolanaSwapTransfer } from '../../';
+import type { SolanaSwapTransfer, TokenAmount } from '../../';
 
 export function handleMeteoraDamm(
   logger: Logger,
   ins: Instruction,
   block: Block,
 ): SolanaSwapTransfer | null {
+  const {
+    accounts: { pool: poolAddress, aTokenVault, bTokenVault, aVaultLp, bVaultLp },
+  } = meteoraDamm.instructions.swap.decode(ins);
 
   /**
    * Meteora DAMM has two transfers on the second level and also other tokenProgram instructions
@@ -49,21 +54,104 @@ export function handleMeteoraDamm(
   }
 
   const tokenBalances = getInstructionBalances(ins, block);
+  const tokenIn = tokenBalances.find((b: TokenBalance) => b.account === src.accounts.destination);
+  const tokenOut = tokenBalances.find((b: TokenBalance) => b.account === dest.accounts.source);
+  const tokenAVault = tokenBalances.find((b: TokenBalance) => b.account === aTokenVault);
+  const tokenBVault = tokenBalances.find((b: TokenBalance) => b.account === bTokenVault);
+
+  const aToB = src.accounts.destination === aTokenVault;
+  const reserves =
+    tokenAVault && tokenBVault
+      ? getTokenReserves(
+          ins,
+          block,
+          { vault: tokenAVault, vaultLp: aVaultLp, amount: aToB ? src.data.amount : dest.data.amount },
+          { vault: tokenBVault, vaultLp: bVaultLp, amount: aToB ? dest.data.amount : src.data.amount },
+        )
+      : null;
+
   return {
     type: 'meteora_damm',
     account: src.accounts.authority,
     in: {
       amount: src.data.amount,
-      token: tokenBalances.find((b: any) => b.account === src.accounts.destination),
+      token: tokenIn,
     },
     out: {
       amount: dest.data.amount,
-      token: tokenBalances.find((b: any) => b.account === dest.accounts.source),
+      token: tokenOut,
     },
-    poolAddress: null,
-    tokenA: null,
-    tokenB: null,
-    slippage: null,
-    reserves: null,
+    poolAddress,
+    tokenA: tokenAVault?.postMint ?? null,
+    tokenB: tokenBVault?.postMint ?? null,
+    slippage: reserves ? getSlippage(src.data.amount, dest.data.amount, reserves, aToB) : null,
+    reserves,
+    // DAMM doesn't report the trade fee, and the reserves are too approximate to derive it
+    fee: null,
+    feeRate: null,
+    // Only SPL Token transfers are matched, which have no transfer fees
+    transferFees: { in: 0n, out: 0n },
+  };
+}
+
+interface VaultTransfer {
+  vault: { postMint: string; postDecimals: number };
+  vaultLp: string;
+  amount: bigint;
+}
+
+/**
+ * DAMM pools don't hold tokens directly, they hold LP tokens of the shared Meteora vaults.
+ * The swap deposits the input into one vault and withdraws the output from the other one,
+ * so the LP minted/burned for the transferred amount gives the vault price per LP,
+ * which converts the pre-swap LP balances of the pool into token reserves.
+ */
+function getTokenReserves(
+  ins: Instruction,
+  block: Block,
+  a: VaultTransfer,
+  b: VaultTransfer,
+): { tokenA: TokenAmount; tokenB: TokenAmount } | null {
+  const tokenBalances = getInstructionBalances(ins, block);
+  const tokenA = getVaultReserve(tokenBalances, a);
+  const tokenB = getVaultReserve(tokenBalances, b);
+  if (!tokenA || !tokenB) return null;
+
+  return { tokenA, tokenB };
+}
+
+function getVaultReserve(
+  tokenBalances: ReturnType<typeof getInstructionBalances>,
+  { vault, vaultLp, amount }: VaultTransfer,
+): TokenAmount | null {
+  const lp = tokenBalances.find((b: TokenBalance) => b.account === vaultLp);
+  if (!lp) return null;
+
+  const preLpAmount = BigInt(lp.preAmount);
+  const lpDelta = BigInt(lp.postAmount) - preLpAmount;
+  if (lpDelta === 0n) return null;
+
+  return {
+    mint: vault.postMint,
+    amount: (preLpAmount * amount) / (lpDelta > 0n ? lpDelta : -lpDelta),
+    decimals: vault.postDecimals,
   };
 }
+
+// Calculate slippage based on the pre-swap reserves ratio and the amount of tokens received
+function getSlippage(
+  inputTokenAmount: bigint,
+  outputTokenAmount: bigint,
+  reserves: { tokenA: TokenAmount; tokenB: TokenAmount },
+  aToB: boolean,
+): number | null {
+  const reserveIn = aToB ? reserves.tokenA.amount : reserves.tokenB.amount;
+  const reserveOut = aToB ? reserves.tokenB.amount : reserves.tokenA.amount;
+  if (reserveIn === 0n) return null;
+
+  // Raw amounts are used on both sides so token decimals cancel out
+  const expectedAmount = (Number(inputTokenAmount) * Number(reserveOut)) / Number(reserveIn);
+  if (expectedAmount === 0) return null;
+
+  return ((expectedAmount - Number(outputTokenAmount)) / expectedAmount) * 100;
+}
@@ -1,39 +1,122 @@
+import { type TokenBalance, getInstructionDescriptor } from '@subsquid/solana-stream';
 import {
   type Block,
   type Instruction,
-  getInnerTransfersByLevel,
+  getDecodedInnerTransfers,
+  getFeeRate,
   getInstructionBalances,
+  getInstructionCpiEvents,
+  getTransferFee,
 } from '../../../../utils';
 
-import * as tokenProgram from '../../../../abi/tokenProgram';
-import type { SolanaSwapTransfer } from '../../';
+import * as meteoraDlmm from '../../../../abi/meteora_dlmm';
+import type { SolanaSwapTransfer, TokenAmount } from '../../';
 export function handleMeteoraDlmm(ins: Instruction, block: Block): SolanaSwapTransfer {
-  const transfers = getInnerTransfersByLevel(ins, block.instructions, 1).map((t) => {
-    return tokenProgram.instructions.transferChecked.decode(t);
-  });
-
-  // DAMM could have internal transfers, the last two transfers are final src and dest
-  // TODO if there are more than 2 transfers, is the first one fee?
-  // 2fsnqWFXfmPkNPMTe2BVrDgSEhgezDTtvXxedrDHJrrLXNWR7K2DpPZ13N2DppGrYmTpofAfToXzaqyBWiumJGZ4
-  const [src, dest] = transfers.slice(-2);
+  const {
+    accounts: { lbPair: poolAddress, reserveX, reserveY, tokenXMint, tokenYMint },
+  } = decodeSwap(ins);
+  // V2 instructions use token-2022 transferChecked and may log a memo, which is not a token transfer
+  const transfers = getDecodedInnerTransfers(ins, block);
+
+  // Besides the input and output transfers there could be a host fee transfer,
+  // so match them by the pool reserve accounts instead of relying on their order
+  const src = transfers.find((t) => t.accounts.destination === reserveX || t.accounts.destination === reserveY);
+  const dest = transfers.find((t) => t.accounts.source === reserveX || t.accounts.source === reserveY);
+  if (!src || !dest) {
+    throw new Error('Meteora DLMM: could not find transfers to or from the pool reserves');
+  }
+
+  const account = src.accounts.owner || src.accounts.authority;
+  if (!account) {
+    throw new Error('Account not found in transfer instruction');
+  }
+
   const tokenBalances = getInstructionBalances(ins, block);
+  const tokenIn = tokenBalances.find((b: any) => b.account === src.accounts.destination);
+  const [swapEvent] = getInstructionCpiEvents(ins, block, meteoraDlmm.events.Swap);
+  // The fee is charged in the input token and includes the protocol and host shares
+  const fee =
+    swapEvent && tokenIn
+      ? { mint: tokenIn.postMint, amount: swapEvent.fee, decimals: tokenIn.postDecimals }
+      : null;
 
   return {
     type: 'meteora_dlmm',
-    account: src.accounts.owner,
+    account,
     in: {
       amount: src.data.amount,
-      token: tokenBalances.find((b: any) => b.account === src.accounts.destination),
+      token: tokenIn,
     },
     out: {
       amount: dest.data.amount,
       token: tokenBalances.find((b: any) => b.account === dest.accounts.source),
     },
-    poolAddress: null,
-    tokenA: null,
-    tokenB: null,
-    slippage: null,
-    reserves: null,
+    poolAddress,
+    tokenA: tokenXMint,
+    tokenB: tokenYMint,
+    slippage: swapEvent ? getSlippage(swapEvent) : null,
+    reserves: getTokenReserves(ins, block, reserveX, reserveY),
+    fee,
+    feeRate: fee ? getFeeRate(fee.amount, src.data.amount) : null,
+    // The Swap event doesn't report Token-2022 transfer fees
+    transferFees: {
+      in: getTransferFee(ins, block, src.accounts.destination, src.data.amount),
+      out: getTransferFee(ins, block, dest.accounts.destination, dest.data.amount),
+    },
   };
 }
 
+/**
+ * Bins are constant-sum, so a swap filled within its start bin trades at exactly the active bin price.
+ * Prices of the other bins are `(1 + binStep / 10000) ^ binId`, and the pair bin step is neither a part
+ * of the Swap event nor of the swap accounts, so the slippage of swaps crossing bins is unknown.
+ */
+function getSlippage(swapEvent: meteoraDlmm.events.Swap): number | null {
+  return swapEvent.startBinId === swapEvent.endBinId ? 0 : null;
+}
+
+// All swap instructions share the same leading accounts, V2 ones add the memo program
+function decodeSwap(ins: Instruction) {
+  switch (getInstructionDescriptor(ins)) {
+    case meteoraDlmm.instructions.swapExactOut.d8:
+      return meteoraDlmm.instructions.swapExactOut.decode(ins);
+    case meteoraDlmm.instructions.swapWithPriceImpact.d8:
+      return meteoraDlmm.instructions.swapWithPriceImpact.decode(ins);
+    case meteoraDlmm.instructions.swap2.d8:
+      return meteoraDlmm.instructions.swap2.decode(ins);
+    case meteoraDlmm.instructions.swapExactOut2.d8:
+      return meteoraDlmm.instructions.swapExactOut2.decode(ins);
+    case meteoraDlmm.instructions.swapWithPriceImpact2.d8:
+      return meteoraDlmm.instructions.swapWithPriceImpact2.decode(ins);
+    default:
+      return meteoraDlmm.instructions.swap.decode(ins);
+  }
+}
+
+function getTokenReserves(
+  ins: Instruction,
+  block: Block,
+  reserveX: string,
+  reserveY: string,
+): { tokenA: TokenAmount; tokenB: TokenAmount } | null {
+  const tokenBalances = getInstructionBalances(ins, block);
+  const tokenX = tokenBalances.find((b: TokenBalance) => b.account === reserveX);
+  const tokenY = tokenBalances.find((b: TokenBalance) => b.account === reserveY);
+
+  if (!tokenX || !tokenY) {
+    return null;
+  }
+
+  return {
+    tokenA: {
+      mint: tokenX.preMint,
+      amount: BigInt(tokenX.preAmount),
+      decimals: tokenX.preDecimals,
+    },
+    tokenB: {
+      mint: tokenY.preMint,
+      amount: BigInt(tokenY.preAmount),
+      decimals: tokenY.preDecimals,
+    },
+  };
+}
@@ -1,4 +1,3 @@
-import * as tokenProgram from "../../../../abi/tokenProgram";
 import * as whirlpool from "../../../../abi/orca_whirlpool";
 import type { Traded } from "../../../../abi/orca_whirlpool/types";
 import type {
@@ -8,9 +7,11 @@ import type {
 import {
   type Block,
   type Instruction,
-  getInnerTransfersByLevel,
+  getDecodedInnerTransfers,
+  getFeeRate,
   getInstructionBalances,
-  getInstructionLogs,
+  getInstructionEvents,
+  getTransferFee,
   sqrtPriceX64ToPrice,
 } from "../../../../utils";
 import {
@@ -25,16 +26,21 @@ export function handleWhirlpool(
   const swapEvent = getSwapEvent(ins, block);
   const [
     {
-      accounts: { destination: tokenInAccount, authority },
+      // Transfer instructions take in authority account while TransferChecked instructions (swapV2) take in owner account
+      accounts: { destination: tokenInAccount, authority, owner },
       data: { amount: inputTokenAmount },
     },
     {
-      accounts: { source: tokenOutAccount },
+      accounts: { source: tokenOutAccount, destination: userTokenOutAccount },
       data: { amount: outputTokenAmount },
     },
-  ] = getInnerTransfersByLevel(ins, block.instructions, 1).map((t) =>
-    tokenProgram.instructions.transfer.decode(t)
-  );
+  ] = getDecodedInnerTransfers(ins, block);
+
+  const account = authority || owner;
+  if (!account) {
+    throw new Error("Account not found in transfer instruction");
+  }
+
   const tokenBalances = getInstructionBalances(ins, block);
   const tokenIn = tokenBalances.find(
     (b: TokenBalance) => b.account === tokenInAccount
@@ -66,12 +72,14 @@ export function handleWhirlpool(
     tokenVaultB,
   } = getPoolAccounts(ins);
 
+  const fee = swapEvent && tokenIn ? getFee(swapEvent, tokenIn) : null;
+
   return {
     type: "orca_whirlpool",
     poolAddress,
     tokenA: swapEvent?.aToB ? tokenIn.postMint : tokenOut.postMint,
     tokenB: swapEvent?.aToB ? tokenOut.postMint : tokenIn.postMint,
-    account: authority,
+    account,
     in: {
       amount: inputTokenAmount,
       token: tokenIn,
@@ -82,6 +90,191 @@ export function handleWhirlpool(
     },
     slippage,
     reserves: getTokenReserves(ins, block, tokenVaultA, tokenVaultB),
+    fee,
+    feeRate: fee ? getFeeRate(fee.amount, inputTokenAmount) : null,
+    transferFees: swapEvent
+      ? { in: swapEvent.inputTransferFee, out: swapEvent.outputTransferFee }
+      : {
+          in: getTransferFee(ins, block, tokenInAccount, inputTokenAmount),
+          out: getTransferFee(ins, block, userTokenOutAccount, outputTokenAmount),
+        },
+  };
+}
+
+interface WhirlpoolHop {
+  whirlpool: string;
+  aToB: boolean;
+  tokenVaultA: string;
+  tokenVaultB: string;
+  inputVault: string;
+  outputVault: string;
+}
+
+/**
+ * Handles twoHopSwap and twoHopSwapV2 instructions, emitting one swap per hop.
+ * Both hops share the intermediate mint, which is the output of the first hop
+ * and the input of the second one.
+ */
+export function handleWhirlpoolTwoHop(
+  ins: Instruction,
+  block: Block
+): SolanaSwapTransfer[] {
+  const { authority, hops } = getTwoHopAccounts(ins);
+  const transfers = getDecodedInnerTransfers(ins, block);
+  const swapEvents = getInstructionEvents(ins, block, whirlpool.events.Traded);
+  const tokenBalances = getInstructionBalances(ins, block);
+
+  const swaps = hops.map((hop) => {
+    const tokenIn = tokenBalances.find(
+      (b: TokenBalance) => b.account === hop.inputVault
+    );
+    const tokenOut = tokenBalances.find(
+      (b: TokenBalance) => b.account === hop.outputVault
+    );
+    if (!tokenIn || !tokenOut) {
+      throw new Error("No token balances found for two-hop swap vaults");
+    }
+
+    // In V1 the intermediate tokens go through the owner account, in V2 they are
+    // transferred directly between the vaults, so match transfers by vault only
+    const inputTransfer = transfers.find(
+      (t) => t.accounts.destination === hop.inputVault
+    );
+    const outputTransfer = transfers.find(
+      (t) => t.accounts.source === hop.outputVault
+    );
+    if (!inputTransfer || !outputTransfer) {
+      throw new Error("No token transfers found for two-hop swap vaults");
+    }
+
+    const inputTokenAmount = inputTransfer.data.amount;
+    const outputTokenAmount = outputTransfer.data.amount;
+
+    const swapEvent =
+      swapEvents.find((e) => e.whirlpool === hop.whirlpool) ?? null;
+    const swapPrice = swapEvent
+      ? getPoolPrice(swapEvent, tokenIn, tokenOut)
+      : null;
+    const slippage =
+      swapPrice && swapEvent
+        ? getSlippage(
+            tokenIn,
+            tokenOut,
+            inputTokenAmount,
+            outputTokenAmount,
+            swapEvent,
+            swapPrice
+          )
+        : null;
+    const fee = swapEvent ? getFee(swapEvent, tokenIn) : null;
+
+    return {
+      type: "orca_whirlpool" as const,
+      poolAddress: hop.whirlpool,
+      tokenA: hop.aToB ? tokenIn.postMint : tokenOut.postMint,
+      tokenB: hop.aToB ? tokenOut.postMint : tokenIn.postMint,
+      account: authority,
+      in: {
+        amount: inputTokenAmount,
+        token: tokenIn,
+      },
+      out: {
+        amount: outputTokenAmount,
+        token: tokenOut,
+      },
+      slippage,
+      reserves: getTokenReserves(
+        ins,
+        block,
+        hop.tokenVaultA,
+        hop.tokenVaultB
+      ),
+      fee,
+      feeRate: fee ? getFeeRate(fee.amount, inputTokenAmount) : null,
+      transferFees: swapEvent
+        ? { in: swapEvent.inputTransferFee, out: swapEvent.outputTransferFee }
+        : {
+            in: getTransferFee(ins, block, hop.inputVault, inputTokenAmount),
+            out: getTransferFee(
+              ins,
+              block,
+              outputTransfer.accounts.destination,
+              outputTokenAmount
+            ),
+          },
+    };
+  });
+
+  const intermediateMint = swaps[0].out.token.postMint;
+
+  return swaps.map((swap, hop) => ({
+    ...swap,
+    route: { hop, intermediateMint },
+  }));
+}
+
+function getTwoHopAccounts(ins: Instruction): {
+  authority: string;
+  hops: [WhirlpoolHop, WhirlpoolHop];
+} {
+  const descriptor = getInstructionDescriptor(ins);
+  if (descriptor === whirlpool.instructions.twoHopSwap.d8) {
+    const { accounts, data } = whirlpool.instructions.twoHopSwap.decode(ins);
+
+    return {
+      authority: accounts.tokenAuthority,
+      hops: [
+        toHop(
+          accounts.whirlpoolOne,
+          accounts.tokenVaultOneA,
+          accounts.tokenVaultOneB,
+          data.aToBOne
+        ),
+        toHop(
+          accounts.whirlpoolTwo,
+          accounts.tokenVaultTwoA,
+          accounts.tokenVaultTwoB,
+          data.aToBTwo
+        ),
+      ],
+    };
+  }
+
+  // V2 names the vaults by their role in the route rather than by pool token order
+  const { accounts, data } = whirlpool.instructions.twoHopSwapV2.decode(ins);
+
+  return {
+    authority: accounts.tokenAuthority,
+    hops: [
+      toHop(
+        accounts.whirlpoolOne,
+        data.aToBOne ? accounts.tokenVaultOneInput : accounts.tokenVaultOneIntermediate,
+        data.aToBOne ? accounts.tokenVaultOneIntermediate : accounts.tokenVaultOneInput,
+        data.aToBOne
+      ),
+      toHop(
+        accounts.whirlpoolTwo,
+        data.aToBTwo ? accounts.tokenVaultTwoIntermediate : accounts.tokenVaultTwoOutput,
+        data.aToBTwo ? accounts.tokenVaultTwoOutput : accounts.tokenVaultTwoIntermediate,
+        data.aToBTwo
+      ),
+    ],
+  };
+}
+
+function toHop(
+  whirlpool: string,
+  tokenVaultA: string,
+  tokenVaultB: string,
+  aToB: boolean
+): WhirlpoolHop {
+  return {
+    whirlpool,
+    aToB,
+    tokenVaultA,
+    tokenVaultB,
+    inputVault: aToB ? tokenVaultA : tokenVaultB,
+    outputVault: aToB ? tokenVaultB : tokenVaultA,
   };
 }
 
@@ -134,14 +327,22 @@ function getSlippage(
   return slippage;
 }
 
+// Fees are charged in the input token, the pool fee is split between LPs and the protocol
+function getFee(
+  swapEvent: Traded,
+  tokenIn: { postMint: string; postDecimals: number }
+): TokenAmount {
+  return {
+    mint: tokenIn.postMint,
+    amount: swapEvent.lpFee + swapEvent.protocolFee,
+    decimals: tokenIn.postDecimals,
+  };
+}
+
 function getSwapEvent(ins: Instruction, block: Block): Traded | null {
-  const logs = getInstructionLogs(ins, block);
-  if (logs.length > 1) {
-    const hex = Buffer.from(logs[1].message, "base64").toString("hex");
-    return whirlpool.events.Traded.decode({ msg: `0x${hex}` });
-  }
+  const [swapEvent] = getInstructionEvents(ins, block, whirlpool.events.Traded);
 
-  return null;
+  return swapEvent ?? null;
 }
 
 function getPoolAccounts(ins: Instruction) {
@@ -4,7 +4,8 @@ import {
   type Instruction,
   getDecodedInnerTransfers,
   getInstructionBalances,
-  getInstructionLogs,
+  getInstructionEvents,
+  getTransferFee,
   sortAccounts,
   sqrtPriceX64ToPrice,
 } from '../../../../utils';
@@ -22,23 +23,108 @@ export function handleRaydiumClmm(
   const {
     accounts: { poolState: poolAddress, inputVault, outputVault },
   } = decodeSwap(ins);
-  const swapEvent = getSwapEvent(ins, block);
+  const [swapEvent] = getInstructionEvents(ins, block, raydiumClmm.events.SwapEvent);
   const decodedTransfers = getDecodedInnerTransfers(ins, block);
   if (decodedTransfers.length < 2) {
     throw new Error('Expected 2 decoded transfers accounting for tokenIn and tokenOut');
   }
 
-  const [
-    {
-      // Transfer instructions take in authority account while TransferChecked instructions take in owner account
-      accounts: { destination: tokenInAccount, authority, owner },
-      data: { amount: inputTokenAmount },
-    },
-    {
-      accounts: { source: tokenOutAccount },
-      data: { amount: outputTokenAmount },
+  const [input, output] = decodedTransfers;
+
+  return getHopSwap(ins, block, {
+    poolAddress,
+    inputVault,
+    outputVault,
+    input,
+    output,
+    swapEvent: swapEvent ?? null,
+  });
+}
+
+/**
+ * swapRouterBaseIn swaps through several pools in a single instruction.
+ * Each hop passes ammConfig, poolState, outputTokenAccount, inputVault, outputVault,
+ * outputTokenMint and observationState in the remaining accounts, followed by its tick arrays,
+ * so hops are located by the vaults of their input and output transfers.
+ */
+export function handleRaydiumClmmRoute(ins: Instruction, block: Block): SolanaSwapTransfer[] {
+  const { accounts } = raydiumClmm.instructions.swapRouterBaseIn.decode(ins);
+  const remainingAccounts: string[] = ins.accounts.slice(Object.keys(accounts).length);
+  const swapEvents = getInstructionEvents(ins, block, raydiumClmm.events.SwapEvent);
+  const transfers = getDecodedInnerTransfers(ins, block);
+
+  const swaps: SolanaSwapTransfer[] = [];
+  let cursor = 0;
+  for (let i = 0; i + 1 < transfers.length; i += 2) {
+    const [input, output] = [transfers[i], transfers[i + 1]];
+
+    const vaultIndex = remainingAccounts.indexOf(input.accounts.destination, cursor);
+    if (vaultIndex < 2 || remainingAccounts[vaultIndex + 1] !== output.accounts.source) {
+      throw new Error('Raydium CLMM: could not find route hop accounts');
+    }
+
+    const poolAddress = remainingAccounts[vaultIndex - 2];
+    // Events are logged in hop order, later ones are missing if the logs were truncated
+    const swapEvent = swapEvents[swaps.length];
+
+    swaps.push(
+      getHopSwap(ins, block, {
+        poolAddress,
+        inputVault: remainingAccounts[vaultIndex],
+        outputVault: remainingAccounts[vaultIndex + 1],
+        input,
+        output,
+        swapEvent: swapEvent?.poolState === poolAddress ? swapEvent : null,
+      }),
+    );
+
+    cursor = vaultIndex + 2;
+  }
+
+  if (!swaps.length) {
+    throw new Error('Expected 2 decoded transfers accounting for tokenIn and tokenOut');
+  }
+
+  return swaps.map((swap, hop) => ({
+    ...swap,
+    route: {
+      hop,
+      // The last hop spends the mint received by the previous one
+      intermediateMint: hop < swaps.length - 1 ? swap.out.token.postMint : swap.in.token.postMint,
     },
-  ] = decodedTransfers;
+  }));
+}
+
+type DecodedTransfer = ReturnType<typeof getDecodedInnerTransfers>[number];
+
+function getHopSwap(
+  ins: Instruction,
+  block: Block,
+  {
+    poolAddress,
+    inputVault,
+    outputVault,
+    input,
+    output,
+    swapEvent,
+  }: {
+    poolAddress: string;
+    inputVault: string;
+    outputVault: string;
+    input: DecodedTransfer;
+    output: DecodedTransfer;
+    swapEvent: SwapEvent | null;
+  },
+): SolanaSwapTransfer {
+  const {
+    // Transfer instructions take in authority account while TransferChecked instructions take in owner account
+    accounts: { destination: tokenInAccount, authority, owner },
+    data: { amount: inputTokenAmount },
+  } = input;
+  const {
+    accounts: { source: tokenOutAccount, destination: userTokenOutAccount },
+    data: { amount: outputTokenAmount },
+  } = output;
 
   const account = authority || owner;
   if (!account) {
@@ -88,6 +174,20 @@ export function handleRaydiumClmm(
     },
     slippage,
     reserves: getTokenReserves(ins, block, token0Vault, token1Vault),
+    // SwapEvent doesn't carry the fee and the trade fee rate is only stored in the AMM config account, whose data
+    // is not part of the stream. The pre-swap sqrt price is not logged either, so the fee can't be recovered from
+    // the price move. Left unknown rather than estimated from a guessed rate.
+    fee: null,
+    feeRate: null,
+    transferFees: swapEvent
+      ? {
+          in: swapEvent.zeroForOne ? swapEvent.transferFee0 : swapEvent.transferFee1,
+          out: swapEvent.zeroForOne ? swapEvent.transferFee1 : swapEvent.transferFee0,
+        }
+      : {
+          in: getTransferFee(ins, block, tokenInAccount, inputTokenAmount),
+          out: getTransferFee(ins, block, userTokenOutAccount, outputTokenAmount),
+        },
   };
 }
 
@@ -110,15 +210,6 @@ function getPoolPrice(
   return poolPrice;
 }
 
-function getSwapEvent(ins: Instruction, block: Block): SwapEvent | null {
-  const logs = getInstructionLogs(ins, block);
-  if (logs.length > 1) {
-    const hex = Buffer.from(logs[1].message, 'base64').toString('hex');
-    return raydiumClmm.events.SwapEvent.decode({ msg: `0x${hex}` });
-  }
-  return null;
-}
-
 // Calculate slippage based on the post-swap price and the amount of input token
 function getSlippage(
   tokenIn: TokenBalance,
@@ -144,7 +235,6 @@ function getSlippage(
   return slippage;
 }
 
-// TODO: should handle swapRouterBaseIn instruction
 function decodeSwap(ins: Instruction) {
   const descriptor = getInstructionDescriptor(ins);
 
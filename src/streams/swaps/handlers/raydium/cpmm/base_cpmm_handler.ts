@@ -7,80 +7,194 @@ import {
   type Block,
   type Instruction,
   getDecodedInnerTransfers,
+  getFeeRate,
   getInstructionBalances,
+  getInstructionEvents,
+  getTransferFee,
+  sortAccounts,
 } from '../../../../../utils';
+import { SwapEvent } from './swap_event';
 
 interface Token {
   mint: string;
   decimals: number;
 }
 
+export interface SwapAmounts {
+  inputAmount: bigint;
+  outputAmount: bigint;
+  // Null if the logs were truncated and the transfers don't report them
+  inputTransferFee: bigint | null;
+  outputTransferFee: bigint | null;
+  // Pool reserves before the swap, excluding protocol and fund fees kept in the vaults
+  inputReserve: bigint;
+  outputReserve: bigint;
+  // Charged trade fee, only logged by program versions with creator fees
+  tradeFee?: bigint;
+}
+
 /**
  * Base class for Raydium CPMM swap handlers
  */
 export abstract class RaydiumCpmmSwapBaseHandler {
-  // 0.25%
-  protected static PROTOCOL_FEE = 25n;
-  protected static FEE_DENOMINATOR = 10000n;
-
   constructor(
     protected instruction: Instruction,
     protected block: Block,
     private decodeMethod: 'swapBaseInput' | 'swapBaseOutput'
   ) {}
 
-  abstract handleSwap(): SolanaSwapTransfer;
+  protected abstract getSlippage(amounts: SwapAmounts, tradeFee: bigint): number | null;
 
-  protected getInputAndOutputTokenAmounts(): {
-    inputTokenAmount: TokenAmount;
-    outputTokenAmount: TokenAmount;
-    tokenInAccount: string;
-    tokenOutAccount: string;
-    authority?: string;
-    owner?: string;
-  } {
+  handleSwap(): SolanaSwapTransfer {
+    const {
+      payer,
+      inputVault,
+      outputVault,
+      inputTokenMint,
+      outputTokenMint,
+      poolAddress,
+    } = this.getAccounts();
+
+    const [token0Mint, token1Mint] = sortAccounts(
+      inputTokenMint,
+      outputTokenMint
+    );
+
+    const amounts = this.getSwapAmounts();
     const { inputToken, outputToken } = this.getTokenData();
+    const inputReserve = { ...inputToken, amount: amounts.inputReserve };
+    const outputReserve = { ...outputToken, amount: amounts.outputReserve };
+    const isToken0Input = inputTokenMint === token0Mint;
+    const tradeFee = amounts.tradeFee ?? this.getEstimatedTradeFee(amounts);
+
+    return {
+      type: 'raydium_cpmm',
+      poolAddress,
+      tokenA: token0Mint,
+      tokenB: token1Mint,
+      account: payer,
+      in: {
+        amount: amounts.inputAmount,
+        token: { postMint: inputToken.mint, postDecimals: inputToken.decimals },
+      },
+      out: {
+        amount: amounts.outputAmount,
+        token: { postMint: outputToken.mint, postDecimals: outputToken.decimals },
+      },
+      slippage: this.getSlippage(amounts, tradeFee),
+      reserves: {
+        tokenA: isToken0Input ? inputReserve : outputReserve,
+        tokenB: isToken0Input ? outputReserve : inputReserve,
+      },
+      // The trade fee is charged in the input token and includes the protocol and fund shares
+      fee: { ...inputToken, amount: tradeFee },
+      feeRate: getFeeRate(tradeFee, amounts.inputAmount - (amounts.inputTransferFee ?? 0n)),
+      transferFees: { in: amounts.inputTransferFee, out: amounts.outputTransferFee },
+    };
+  }
+
+  /**
+   * Amounts and pre-swap reserves are taken from the SwapEvent logged by the program.
+   * If the logs were truncated, they are recovered from the inner transfers and vault balances,
+   * in which case the reserves include fees accumulated in the vaults and transfer fees are only known if the
+   * transfers report them.
+   */
+  protected getSwapAmounts(): SwapAmounts {
+    const [swapEvent] = getInstructionEvents(
+      this.instruction,
+      this.block,
+      SwapEvent
+    );
+
+    if (swapEvent) {
+      return {
+        inputAmount: swapEvent.inputAmount,
+        outputAmount: swapEvent.outputAmount,
+        inputTransferFee: swapEvent.inputTransferFee,
+        outputTransferFee: swapEvent.outputTransferFee,
+        inputReserve: swapEvent.inputVaultBefore,
+        outputReserve: swapEvent.outputVaultBefore,
+        tradeFee: swapEvent.tradeFee,
+      };
+    }
+
+    const { inputAmount, outputAmount, inputTransferFee, outputTransferFee } =
+      this.getTransferAmounts();
+    const { inputReserve, outputReserve } = this.getVaultReserves();
+
+    return {
+      inputAmount,
+      outputAmount,
+      inputTransferFee,
+      outputTransferFee,
+      inputReserve,
+      outputReserve,
+    };
+  }
+
+  /**
+   * Estimates the trade fee of swaps whose SwapEvent doesn't carry it. The fee stays in the pool, so it is
+   * the part of the received input that is not needed to keep the constant product for the output taken out.
+   * Rounding of the output amount by the program makes it differ from the charged fee by a few base units,
+   * and an unknown transfer fee is taken as zero.
+   */
+  protected getEstimatedTradeFee({
+    inputAmount,
+    outputAmount,
+    inputTransferFee,
+    inputReserve,
+    outputReserve,
+  }: SwapAmounts): bigint {
+    if (outputAmount >= outputReserve) return 0n;
+
+    const receivedAmount = inputAmount - (inputTransferFee ?? 0n);
+    const numerator = inputReserve * outputAmount;
+    const denominator = outputReserve - outputAmount;
+    const swappedAmount = (numerator + denominator - 1n) / denominator;
+
+    return receivedAmount > swappedAmount ? receivedAmount - swappedAmount : 0n;
+  }
+
+  protected getTransferAmounts(): {
+    inputAmount: bigint;
+    outputAmount: bigint;
+    inputTransferFee: bigint | null;
+    outputTransferFee: bigint | null;
+  } {
+    const { inputVault, outputVault } = this.getAccounts();
     const swapTransfers = getDecodedInnerTransfers(
       this.instruction,
       this.block
     );
-    if (swapTransfers.length < 2) {
+
+    const input = swapTransfers.find((t) => t.accounts.destination === inputVault);
+    const output = swapTransfers.find((t) => t.accounts.source === outputVault);
+    if (!input || !output) {
       throw new Error(
         'Expected 2 decoded transfers accounting for tokenIn and tokenOut'
       );
     }
 
-    const [
-      {
-        // Transfer instructions take in authority account while TransferChecked instructions take in owner account
-        accounts: { destination: tokenInAccount, authority, owner },
-        data: { amount: amountInputToken },
-      },
-      {
-        accounts: { source: tokenOutAccount },
-        data: { amount: amountOutputToken },
-      },
-    ] = swapTransfers;
-
     return {
-      authority,
-      owner,
-      tokenInAccount,
-      tokenOutAccount,
-      inputTokenAmount: {
-        mint: inputToken.mint,
-        amount: amountInputToken,
-        decimals: inputToken.decimals,
-      },
-      outputTokenAmount: {
-        mint: outputToken.mint,
-        amount: amountOutputToken,
-        decimals: outputToken.decimals,
-      },
+      inputAmount: input.data.amount,
+      outputAmount: output.data.amount,
+      inputTransferFee: getTransferFee(
+        this.instruction,
+        this.block,
+        inputVault,
+        input.data.amount
+      ),
+      outputTransferFee: getTransferFee(
+        this.instruction,
+        this.block,
+        output.accounts.destination,
+        output.data.amount
+      ),
     };
   }
 
   protected getAccounts(): {
+    payer: string;
     poolAddress: string;
     inputVault: string;
     outputVault: string;
@@ -89,6 +203,7 @@ export abstract class RaydiumCpmmSwapBaseHandler {
   } {
     const {
       accounts: {
+        payer,
         inputTokenMint,
         outputTokenMint,
         inputVault,
@@ -98,6 +213,7 @@ export abstract class RaydiumCpmmSwapBaseHandler {
     } = raydiumCpmm.instructions[this.decodeMethod].decode(this.instruction);
 
     return {
+      payer,
       poolAddress,
       inputVault,
       outputVault,
@@ -107,40 +223,33 @@ export abstract class RaydiumCpmmSwapBaseHandler {
   }
 
   protected getTokenData(): { inputToken: Token; outputToken: Token } {
-    const { inputVault, outputVault } = this.getAccounts();
-    const tokenBalances = getInstructionBalances(this.instruction, this.block);
-    const inputVaultTokenBalance = tokenBalances.find(
-      (tb) => tb.account === inputVault
-    );
-    const outputVaultTokenBalance = tokenBalances.find(
-      (tb) => tb.account === outputVault
-    );
+    const { inputVaultTokenBalance, outputVaultTokenBalance } =
+      this.getVaultBalances();
 
     return {
       inputToken: {
-        mint: inputVaultTokenBalance.account,
+        mint: inputVaultTokenBalance.postMint,
         decimals: inputVaultTokenBalance.postDecimals,
       },
       outputToken: {
-        mint: outputVaultTokenBalance.account,
+        mint: outputVaultTokenBalance.postMint,
         decimals: outputVaultTokenBalance.postDecimals,
       },
     };
   }
 
-  protected getTokenReserves({
-    inputVault,
-    outputVault,
-    token0Mint,
-    token1Mint,
-    inputTokenMint,
-  }: {
-    inputVault: string;
-    outputVault: string;
-    token0Mint: string;
-    token1Mint: string;
-    inputTokenMint: string;
-  }): { token0: TokenAmount; token1: TokenAmount } {
+  protected getVaultReserves(): { inputReserve: bigint; outputReserve: bigint } {
+    const { inputVaultTokenBalance, outputVaultTokenBalance } =
+      this.getVaultBalances();
+
+    return {
+      inputReserve: BigInt(inputVaultTokenBalance.preAmount),
+      outputReserve: BigInt(outputVaultTokenBalance.preAmount),
+    };
+  }
+
+  private getVaultBalances() {
+    const { inputVault, outputVault } = this.getAccounts();
     const tokenBalances = getInstructionBalances(this.instruction, this.block);
 
     const inputVaultTokenBalance = tokenBalances.find(
@@ -158,45 +267,7 @@ export abstract class RaydiumCpmmSwapBaseHandler {
       throw new Error('Output reserves balance not found');
     }
 
-    const {
-      preAmount: preSwapInputTokenReserves,
-      postDecimals: inputTokenDecimals,
-    } = inputVaultTokenBalance;
-
-    const {
-      preAmount: preSwapOutputTokenReserves,
-      postDecimals: outputTokenDecimals,
-    } = outputVaultTokenBalance;
-
-    const isToken0Input = inputTokenMint === token0Mint;
-    const isToken1Input = inputTokenMint === token1Mint;
-
-    const token0Reserves = {
-      amount: isToken0Input
-        ? BigInt(preSwapInputTokenReserves)
-        : BigInt(preSwapOutputTokenReserves),
-      decimals: isToken0Input ? inputTokenDecimals : outputTokenDecimals,
-    };
-
-    const token1Reserves = {
-      amount: isToken1Input
-        ? BigInt(preSwapInputTokenReserves)
-        : BigInt(preSwapOutputTokenReserves),
-      decimals: isToken1Input ? inputTokenDecimals : outputTokenDecimals,
-    };
-
-    return {
-      token0: {
-        mint: token0Mint,
-        amount: token0Reserves.amount,
-        decimals: token0Reserves.decimals,
-      },
-      token1: {
-        mint: token1Mint,
-        amount: token1Reserves.amount,
-        decimals: token1Reserves.decimals,
-      },
-    };
+    return { inputVaultTokenBalance, outputVaultTokenBalance };
   }
 
   protected getPoolPrice(token0: TokenAmount, token1: TokenAmount): number {
@@ -1,3 +1,4 @@
+import { getInstructionDescriptor } from '@subsquid/solana-stream';
 import { Block, Instruction } from '../../../../../utils';
 import type { SolanaSwapTransfer } from '../../../';
 import * as raydiumCpmm from '../../../../../abi/raydium_cpmm';
@@ -13,10 +14,11 @@ export function handleRaydiumCpmm(
   instruction: Instruction,
   block: Block
 ): SolanaSwapTransfer {
-  const Handler = handlerRegistry[instruction.d8];
+  const d8 = getInstructionDescriptor(instruction);
+  const Handler = handlerRegistry[d8];
 
   if (!Handler) {
-    throw new Error(`Unknown swap instruction: ${instruction.d8}`);
+    throw new Error(`Unknown swap instruction: ${d8}`);
   }
 
   return new Handler(instruction, block).handleSwap();
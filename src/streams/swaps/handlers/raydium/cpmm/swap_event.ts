@@ -0,0 +1,46 @@
+import { address, bool, struct, u64 } from '@subsquid/borsh'
+import { event } from '../../../../../abi/abi.support'
+import * as raydiumCpmm from '../../../../../abi/raydium_cpmm'
+
+/**
+ * SwapEvent of program versions with creator fees, which appends the mints and the charged fees
+ * to the fields of the SwapEvent in the generated ABI
+ */
+const SwapEventWithFees = event(
+  { d8: raydiumCpmm.events.SwapEvent.d8 },
+  struct({
+    poolId: address,
+    inputVaultBefore: u64,
+    outputVaultBefore: u64,
+    inputAmount: u64,
+    outputAmount: u64,
+    inputTransferFee: u64,
+    outputTransferFee: u64,
+    baseInput: bool,
+    inputMint: address,
+    outputMint: address,
+    tradeFee: u64,
+    creatorFee: u64,
+    creatorFeeOnInput: bool,
+  }),
+)
+
+// The discriminator, pool id and mints take 32 bytes, the amounts 8 bytes and the flags 1 byte
+const SWAP_EVENT_WITH_FEES_SIZE = 8 + 32 + 6 * 8 + 1 + 2 * 32 + 2 * 8 + 1
+
+export type SwapEvent = raydiumCpmm.events.SwapEvent & { tradeFee?: bigint }
+
+/**
+ * Decodes both versions of the SwapEvent, `tradeFee` is only set by the version that carries it
+ */
+export const SwapEvent = {
+  d8: raydiumCpmm.events.SwapEvent.d8,
+  decode(log: { msg: string }): SwapEvent {
+    // Hex encoded with a 0x prefix
+    if ((log.msg.length - 2) / 2 < SWAP_EVENT_WITH_FEES_SIZE) {
+      return raydiumCpmm.events.SwapEvent.decode(log)
+    }
+
+    return SwapEventWithFees.decode(log)
+  },
+}
@@ -9,8 +9,8 @@ import * as byreal_clmm from '../../abi/byreal_clmm/index'
 import * as pancake_clmm from '../../abi/pancake_clmm/index'
 import { getTransactionAccount, getTransactionHash } from '../../utils'
 import { handleMeteoraDamm, handleMeteoraDlmm } from './handlers/meteora'
-import { handleWhirlpool } from './handlers/orca'
-import { handleRaydiumClmm, handleRaydiumCpmm } from './handlers/raydium'
+import { handleWhirlpool, handleWhirlpoolTwoHop } from './handlers/orca'
+import { handleRaydiumClmm, handleRaydiumClmmRoute, handleRaydiumCpmm } from './handlers/raydium'
 
 export type SwapType =
   | 'orca_whirlpool'
@@ -27,13 +27,28 @@ export interface TokenAmount {
   decimals: number
 }
 
+/**
+ * Multi-hop swaps are split into one swap per hop sharing the same route id
+ */
+export type SwapRoute = {
+  id: string
+  hop: number
+  // Mint received by the hop, or spent by it for the last hop of the route
+  intermediateMint: string
+}
+
 export type SolanaSwap = {
   id: string
   type: SwapType
   account: string
   transaction: { hash: string; index: number }
+  // Transferred amounts, including Token-2022 transfer fees
   input: TokenAmount
   output: TokenAmount
+  // Amounts received by the pool and the user after Token-2022 transfer fees, the same as gross ones for other mints.
+  // Null if the fee is reported neither by the DEX nor by the transfer, it then depends on the fee config of the mint.
+  inputNetAmount: bigint | null
+  outputNetAmount: bigint | null
   instruction: { address: number[] }
   block: BlockRef
   timestamp: Date
@@ -45,6 +60,10 @@ export type SolanaSwap = {
     tokenA: TokenAmount
     tokenB: TokenAmount
   } | null
+  // Pool fee charged for the swap, including the protocol share, null if the DEX doesn't report it
+  fee: TokenAmount | null
+  feeRate: number | null
+  route: SwapRoute | null
 }
 
 export type SolanaSwapTransfer = {
@@ -60,6 +79,11 @@ export type SolanaSwapTransfer = {
     tokenA: TokenAmount
     tokenB: TokenAmount
   } | null
+  fee: TokenAmount | null
+  feeRate: number | null
+  // Token-2022 transfer fees withheld from the input and output transfers, null if they're not reported
+  transferFees: { in: bigint | null; out: bigint | null }
+  route?: Omit<SwapRoute, 'id'>
 }
 
 export class SolanaSwapsStream extends PortalAbstractStream<
@@ -110,6 +134,8 @@ export class SolanaSwapsStream extends PortalAbstractStream<
           postAmount: true,
           preDecimals: true,
           postDecimals: true,
+          preProgramId: true,
+          postProgramId: true,
         },
         log: {
           transactionIndex: true,
@@ -123,7 +149,12 @@ export class SolanaSwapsStream extends PortalAbstractStream<
           case 'orca_whirlpool':
             return {
               programId: [whirlpool.programId], // where executed by Whirlpool program
-              d8: [whirlpool.instructions.swap.d8],
+              d8: [
+                whirlpool.instructions.swap.d8,
+                whirlpool.instructions.swapV2.d8,
+                whirlpool.instructions.twoHopSwap.d8,
+                whirlpool.instructions.twoHopSwapV2.d8,
+              ],
               isCommitted: true,
               innerInstructions: true,
               transaction: true,
@@ -143,7 +174,14 @@ export class SolanaSwapsStream extends PortalAbstractStream<
           case 'meteora_dlmm':
             return {
               programId: [meteora_dlmm.programId],
-              d8: [meteora_dlmm.instructions.swap.d8, meteora_dlmm.instructions.swapExactOut.d8],
+              d8: [
+                meteora_dlmm.instructions.swap.d8,
+                meteora_dlmm.instructions.swapExactOut.d8,
+                meteora_dlmm.instructions.swapWithPriceImpact.d8,
+                meteora_dlmm.instructions.swap2.d8,
+                meteora_dlmm.instructions.swapExactOut2.d8,
+                meteora_dlmm.instructions.swapWithPriceImpact2.d8,
+              ],
               isCommitted: true,
               innerInstructions: true,
               transaction: true,
@@ -167,7 +205,7 @@ export class SolanaSwapsStream extends PortalAbstractStream<
           case 'raydium_cpmm':
             return {
               programId: [raydium_cpmm.programId],
-              d1: [raydium_cpmm.instructions.swapBaseInput.d8, raydium_cpmm.instructions.swapBaseOutput.d8],
+              d8: [raydium_cpmm.instructions.swapBaseInput.d8, raydium_cpmm.instructions.swapBaseOutput.d8],
               isCommitted: true,
               innerInstructions: true,
               transaction: true,
@@ -209,12 +247,19 @@ export class SolanaSwapsStream extends PortalAbstractStream<
 
             for (const ins of block.instructions) {
               let swap: SolanaSwapTransfer | null = null
+              let hops: SolanaSwapTransfer[] | null = null
 
               switch (ins.programId) {
                 case whirlpool.programId:
-                  if (whirlpool.instructions.swap.d8 === getInstructionDescriptor(ins)) {
-                    swap = handleWhirlpool(ins, block)
-                    break
+                  switch (getInstructionDescriptor(ins)) {
+                    case whirlpool.instructions.swap.d8:
+                    case whirlpool.instructions.swapV2.d8:
+                      swap = handleWhirlpool(ins, block)
+                      break
+                    case whirlpool.instructions.twoHopSwap.d8:
+                    case whirlpool.instructions.twoHopSwapV2.d8:
+                      hops = handleWhirlpoolTwoHop(ins, block)
+                      break
                   }
                   break
                 case meteora_damm.programId:
@@ -228,6 +273,10 @@ export class SolanaSwapsStream extends PortalAbstractStream<
                   switch (getInstructionDescriptor(ins)) {
                     case meteora_dlmm.instructions.swap.d8:
                     case meteora_dlmm.instructions.swapExactOut.d8:
+                    case meteora_dlmm.instructions.swapWithPriceImpact.d8:
+                    case meteora_dlmm.instructions.swap2.d8:
+                    case meteora_dlmm.instructions.swapExactOut2.d8:
+                    case meteora_dlmm.instructions.swapWithPriceImpact2.d8:
                       swap = handleMeteoraDlmm(ins, block)
                       break
                   }
@@ -244,9 +293,11 @@ export class SolanaSwapsStream extends PortalAbstractStream<
                   switch (getInstructionDescriptor(ins)) {
                     case raydium_clmm.instructions.swap.d8:
                     case raydium_clmm.instructions.swapV2.d8:
-                    case raydium_clmm.instructions.swapRouterBaseIn.d8:
                       swap = handleRaydiumClmm(ins, block)
                       break
+                    case raydium_clmm.instructions.swapRouterBaseIn.d8:
+                      hops = handleRaydiumClmmRoute(ins, block)
+                      break
                   }
                   break
                 case byreal_clmm.programId:
@@ -267,50 +318,62 @@ export class SolanaSwapsStream extends PortalAbstractStream<
                   break
               }
 
-              if (!swap) continue
-              else if (
-                args?.tokens &&
-                !args?.tokens.includes(swap.in.token.postMint) &&
-                !args?.tokens.includes(swap.out.token.postMint)
-              ) {
-                continue
-              }
+              const transfers = hops || (swap ? [swap] : [])
+              if (!transfers.length) continue
 
               const txHash = getTransactionHash(ins, block)
+              const routeId = `${txHash}/${ins.instructionAddress.join('.')}`
 
-              swaps.push({
-                id: `${txHash}/${ins.transactionIndex}`,
-                type: swap.type,
-                block: {
-                  number: block.header.number,
-                  hash: block.header.hash,
-                  timestamp: block.header.timestamp,
-                },
-                instruction: {
-                  address: ins.instructionAddress,
-                },
-                input: {
-                  amount: swap.in.amount,
-                  mint: swap.in.token.postMint,
-                  decimals: swap.in.token.postDecimals,
-                },
-                output: {
-                  amount: swap.out.amount,
-                  mint: swap.out.token.postMint,
-                  decimals: swap.out.token.postDecimals,
-                },
-                account: getTransactionAccount(ins, block),
-                transaction: {
-                  hash: txHash,
-                  index: ins.transactionIndex,
-                },
-                timestamp: new Date(block.header.timestamp * 1000),
-                poolAddress: swap.poolAddress,
-                tokenA: swap.tokenA,
-                tokenB: swap.tokenB,
-                slippage: swap.slippage,
-                reserves: swap.reserves,
-              })
+              for (const swap of transfers) {
+                if (
+                  args?.tokens &&
+                  !args?.tokens.includes(swap.in.token.postMint) &&
+                  !args?.tokens.includes(swap.out.token.postMint)
+                ) {
+                  continue
+                }
+
+                swaps.push({
+                  id: swap.route
+                    ? `${txHash}/${ins.transactionIndex}/${swap.route.hop}`
+                    : `${txHash}/${ins.transactionIndex}`,
+                  type: swap.type,
+                  block: {
+                    number: block.header.number,
+                    hash: block.header.hash,
+                    timestamp: block.header.timestamp,
+                  },
+                  instruction: {
+                    address: ins.instructionAddress,
+                  },
+                  input: {
+                    amount: swap.in.amount,
+                    mint: swap.in.token.postMint,
+                    decimals: swap.in.token.postDecimals,
+                  },
+                  output: {
+                    amount: swap.out.amount,
+                    mint: swap.out.token.postMint,
+                    decimals: swap.out.token.postDecimals,
+                  },
+                  inputNetAmount: swap.transferFees.in !== null ? swap.in.amount - swap.transferFees.in : null,
+                  outputNetAmount: swap.transferFees.out !== null ? swap.out.amount - swap.transferFees.out : null,
+                  account: getTransactionAccount(ins, block),
+                  transaction: {
+                    hash: txHash,
+                    index: ins.transactionIndex,
+                  },
+                  timestamp: new Date(block.header.timestamp * 1000),
+                  poolAddress: swap.poolAddress,
+                  tokenA: swap.tokenA,
+                  tokenB: swap.tokenB,
+                  slippage: swap.slippage,
+                  reserves: swap.reserves,
+                  fee: swap.fee,
+                  feeRate: swap.feeRate,
+                  route: swap.route ? { id: routeId, ...swap.route } : null,
+                })
+              }
             }
 
             return swaps
@@ -0,0 +1,178 @@
+import { address, i16, option, struct, u8, u16, u64 } from '@subsquid/borsh'
+import { instruction } from '../../abi/abi.support'
+
+/**
+ * Mint extension instructions are nested under a single instruction of the program,
+ * which the generated ABI only has as units, so these are written by hand outside of it.
+ * The second byte selects the extension instruction.
+ * Optional pubkeys of the newer extensions are 32 bytes, where the default pubkey means none.
+ */
+
+export interface InitializeTransferFeeConfig {
+  transferFeeConfigAuthority?: string | undefined
+  withdrawWithheldAuthority?: string | undefined
+  transferFeeBasisPoints: number
+  maximumFee: bigint
+}
+
+export const initializeTransferFeeConfig = instruction(
+  {
+    d2: '0x1a00',
+  },
+  {
+    mint: 0,
+  },
+  struct({
+    transferFeeConfigAuthority: option(address),
+    withdrawWithheldAuthority: option(address),
+    transferFeeBasisPoints: u16,
+    maximumFee: u64,
+  }),
+)
+
+export interface TransferCheckedWithFee {
+  amount: bigint
+  decimals: number
+  fee: bigint
+}
+
+export const transferCheckedWithFee = instruction(
+  {
+    d2: '0x1a01',
+  },
+  {
+    source: 0,
+    tokenMint: 1,
+    destination: 2,
+    authority: 3,
+  },
+  struct({
+    amount: u64,
+    decimals: u8,
+    fee: u64,
+  }),
+)
+
+export interface SetTransferFee {
+  transferFeeBasisPoints: number
+  maximumFee: bigint
+}
+
+export const setTransferFee = instruction(
+  {
+    d2: '0x1a05',
+  },
+  {
+    mint: 0,
+    authority: 1,
+  },
+  struct({
+    transferFeeBasisPoints: u16,
+    maximumFee: u64,
+  }),
+)
+
+export interface InitializeInterestBearingMint {
+  rateAuthority: string
+  rate: number
+}
+
+export const initializeInterestBearingMint = instruction(
+  {
+    d2: '0x2100',
+  },
+  {
+    mint: 0,
+  },
+  struct({
+    rateAuthority: address,
+    rate: i16,
+  }),
+)
+
+export interface UpdateInterestBearingMintRate {
+  rate: number
+}
+
+export const updateInterestBearingMintRate = instruction(
+  {
+    d2: '0x2101',
+  },
+  {
+    mint: 0,
+    rateAuthority: 1,
+  },
+  struct({
+    rate: i16,
+  }),
+)
+
+export interface InitializeTransferHook {
+  authority: string
+  programId: string
+}
+
+export const initializeTransferHook = instruction(
+  {
+    d2: '0x2400',
+  },
+  {
+    mint: 0,
+  },
+  struct({
+    authority: address,
+    programId: address,
+  }),
+)
+
+export interface UpdateTransferHook {
+  programId: string
+}
+
+export const updateTransferHook = instruction(
+  {
+    d2: '0x2401',
+  },
+  {
+    mint: 0,
+    authority: 1,
+  },
+  struct({
+    programId: address,
+  }),
+)
+
+export interface InitializeMetadataPointer {
+  authority: string
+  metadataAddress: string
+}
+
+export const initializeMetadataPointer = instruction(
+  {
+    d2: '0x2700',
+  },
+  {
+    mint: 0,
+  },
+  struct({
+    authority: address,
+    metadataAddress: address,
+  }),
+)
+
+export interface UpdateMetadataPointer {
+  metadataAddress: string
+}
+
+export const updateMetadataPointer = instruction(
+  {
+    d2: '0x2701',
+  },
+  {
+    mint: 0,
+    authority: 1,
+  },
+  struct({
+    metadataAddress: address,
+  }),
+)
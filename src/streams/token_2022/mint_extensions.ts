@@ -0,0 +1,273 @@
+import { BlockRef, OptionalArgs, PortalAbstractStream } from '@sqd-pipes/core'
+import * as token2022Program from '../../abi/token_2022_program'
+import { type Instruction, getInstructionD1, getInstructionD2, getTransactionHash } from '../../utils'
+import * as extensions from './extensions'
+
+const { instructions } = token2022Program
+
+export type MintExtensionType =
+  | 'transfer_fee'
+  | 'interest_bearing'
+  | 'transfer_hook'
+  | 'permanent_delegate'
+  | 'metadata_pointer'
+
+/**
+ * Every initialization and update is reported with the full state of the extension,
+ * fields of other extensions are null
+ */
+export type Token2022MintExtension = {
+  id: string
+  type: 'initialize' | 'update'
+  extension: MintExtensionType
+  mint: string
+  // Configured authority on initialization, the signing one on update
+  authority: string | null
+  transferFeeBasisPoints: number | null
+  maximumFee: bigint | null
+  // Interest rate in basis points
+  rate: number | null
+  transferHookProgramId: string | null
+  permanentDelegate: string | null
+  metadataAddress: string | null
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+type MintExtensionChange = Omit<Token2022MintExtension, 'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'>
+
+const EMPTY_EXTENSION = {
+  authority: null,
+  transferFeeBasisPoints: null,
+  maximumFee: null,
+  rate: null,
+  transferHookProgramId: null,
+  permanentDelegate: null,
+  metadataAddress: null,
+}
+
+// The default pubkey stands for none in the optional pubkeys of extension instructions
+const DEFAULT_PUBKEY = '11111111111111111111111111111111'
+
+/**
+ * Mint extension configuration changes of Token-2022 mints
+ */
+export class Token2022MintExtensionsStream extends PortalAbstractStream<
+  Token2022MintExtension,
+  OptionalArgs<{
+    // All mints are tracked if not set
+    mints?: string[]
+  }>
+> {
+  async stream(): Promise<ReadableStream<Token2022MintExtension[]>> {
+    const mints = this.options.args?.mints
+
+    const request = {
+      programId: [token2022Program.programId],
+      // The mint is the first account of every extension instruction
+      ...(mints?.length ? { a0: mints } : {}),
+      isCommitted: true,
+      transaction: true,
+    }
+
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+        },
+      },
+      instructions: [
+        {
+          ...request,
+          d2: [
+            extensions.initializeTransferFeeConfig.d2,
+            extensions.setTransferFee.d2,
+            extensions.initializeInterestBearingMint.d2,
+            extensions.updateInterestBearingMintRate.d2,
+            extensions.initializeTransferHook.d2,
+            extensions.updateTransferHook.d2,
+            extensions.initializeMetadataPointer.d2,
+            extensions.updateMetadataPointer.d2,
+          ],
+        },
+        {
+          ...request,
+          d1: [instructions.initializePermanentDelegate.d1],
+        },
+      ],
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const changes: Token2022MintExtension[] = []
+
+            for (const ins of block.instructions) {
+              if (ins.programId !== token2022Program.programId) continue
+
+              const change = handleMintExtension(ins)
+              if (!change) continue
+
+              const txHash = getTransactionHash(ins, block)
+
+              changes.push({
+                ...change,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return changes
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
+
+function handleMintExtension(ins: Instruction): MintExtensionChange | null {
+  if (getInstructionD1(ins) === instructions.initializePermanentDelegate.d1) {
+    const { accounts, data } = instructions.initializePermanentDelegate.decode(ins)
+
+    return {
+      ...EMPTY_EXTENSION,
+      type: 'initialize',
+      extension: 'permanent_delegate',
+      mint: accounts.mint,
+      permanentDelegate: data.delegate,
+    }
+  }
+
+  switch (getInstructionD2(ins)) {
+    case extensions.initializeTransferFeeConfig.d2: {
+      const { accounts, data } = extensions.initializeTransferFeeConfig.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'initialize',
+        extension: 'transfer_fee',
+        mint: accounts.mint,
+        authority: data.transferFeeConfigAuthority ?? null,
+        transferFeeBasisPoints: data.transferFeeBasisPoints,
+        maximumFee: data.maximumFee,
+      }
+    }
+    // The new fee only applies from the second epoch after it's set
+    case extensions.setTransferFee.d2: {
+      const { accounts, data } = extensions.setTransferFee.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'update',
+        extension: 'transfer_fee',
+        mint: accounts.mint,
+        authority: accounts.authority,
+        transferFeeBasisPoints: data.transferFeeBasisPoints,
+        maximumFee: data.maximumFee,
+      }
+    }
+    case extensions.initializeInterestBearingMint.d2: {
+      const { accounts, data } = extensions.initializeInterestBearingMint.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'initialize',
+        extension: 'interest_bearing',
+        mint: accounts.mint,
+        authority: toOptionalPubkey(data.rateAuthority),
+        rate: data.rate,
+      }
+    }
+    case extensions.updateInterestBearingMintRate.d2: {
+      const { accounts, data } = extensions.updateInterestBearingMintRate.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'update',
+        extension: 'interest_bearing',
+        mint: accounts.mint,
+        authority: accounts.rateAuthority,
+        rate: data.rate,
+      }
+    }
+    case extensions.initializeTransferHook.d2: {
+      const { accounts, data } = extensions.initializeTransferHook.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'initialize',
+        extension: 'transfer_hook',
+        mint: accounts.mint,
+        authority: toOptionalPubkey(data.authority),
+        transferHookProgramId: toOptionalPubkey(data.programId),
+      }
+    }
+    case extensions.updateTransferHook.d2: {
+      const { accounts, data } = extensions.updateTransferHook.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'update',
+        extension: 'transfer_hook',
+        mint: accounts.mint,
+        authority: accounts.authority,
+        transferHookProgramId: toOptionalPubkey(data.programId),
+      }
+    }
+    case extensions.initializeMetadataPointer.d2: {
+      const { accounts, data } = extensions.initializeMetadataPointer.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'initialize',
+        extension: 'metadata_pointer',
+        mint: accounts.mint,
+        authority: toOptionalPubkey(data.authority),
+        metadataAddress: toOptionalPubkey(data.metadataAddress),
+      }
+    }
+    case extensions.updateMetadataPointer.d2: {
+      const { accounts, data } = extensions.updateMetadataPointer.decode(ins)
+      return {
+        ...EMPTY_EXTENSION,
+        type: 'update',
+        extension: 'metadata_pointer',
+        mint: accounts.mint,
+        authority: accounts.authority,
+        metadataAddress: toOptionalPubkey(data.metadataAddress),
+      }
+    }
+  }
+
+  return null
+}
+
+function toOptionalPubkey(pubkey: string): string | null {
+  return pubkey === DEFAULT_PUBKEY ? null : pubkey
+}
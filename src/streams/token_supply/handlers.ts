@@ -0,0 +1,163 @@
+import type { Logger } from '@sqd-pipes/core'
+import * as tokenProgram from '../../abi/tokenProgram'
+import * as token2022Program from '../../abi/token_2022_program'
+import { type Block, type Instruction, getInstructionBalances, getTransactionHash } from '../../utils'
+import type { TokenSupplyEvent } from './index'
+
+type TokenSupplyChange = Omit<TokenSupplyEvent, 'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'>
+
+// Both token programs share the layout of these instructions, Token-2022 only adds authority types
+function getProgram(ins: Instruction) {
+  return ins.programId === token2022Program.programId ? token2022Program : tokenProgram
+}
+
+function getProgramType(ins: Instruction): TokenSupplyEvent['program'] {
+  return ins.programId === token2022Program.programId ? 'token_2022' : 'spl_token'
+}
+
+export function handleInitializeMint(ins: Instruction, d1: string): TokenSupplyChange {
+  const { instructions } = getProgram(ins)
+  const {
+    accounts: { mint },
+    data,
+  } =
+    d1 === instructions.initializeMint.d1
+      ? instructions.initializeMint.decode(ins)
+      : instructions.initializeMint2.decode(ins)
+
+  return {
+    type: 'initialize_mint',
+    program: getProgramType(ins),
+    mint,
+    decimals: data.decimals,
+    amount: 0n,
+    account: null,
+    authority: null,
+    authorityType: 'MintTokens',
+    newAuthority: data.mintAuthority,
+    freezeAuthority: data.freezeAuthority ?? null,
+  }
+}
+
+export function handleMintTo(logger: Logger, ins: Instruction, block: Block, d1: string): TokenSupplyChange | null {
+  const { mint, account, authority, amount, decimals } = decodeMintTo(ins, d1)
+  const accountDecimals = decimals ?? getDecimals(logger, ins, block, account)
+  if (accountDecimals === null) return null
+
+  return {
+    type: 'mint',
+    program: getProgramType(ins),
+    mint,
+    decimals: accountDecimals,
+    amount,
+    account,
+    authority,
+    authorityType: null,
+    newAuthority: null,
+    freezeAuthority: null,
+  }
+}
+
+export function handleBurn(logger: Logger, ins: Instruction, block: Block, d1: string): TokenSupplyChange | null {
+  const { mint, account, authority, amount, decimals } = decodeBurn(ins, d1)
+  const accountDecimals = decimals ?? getDecimals(logger, ins, block, account)
+  if (accountDecimals === null) return null
+
+  return {
+    type: 'burn',
+    program: getProgramType(ins),
+    mint,
+    decimals: accountDecimals,
+    amount,
+    account,
+    authority,
+    authorityType: null,
+    newAuthority: null,
+    freezeAuthority: null,
+  }
+}
+
+type DecodedSupplyChange = {
+  mint: string
+  account: string
+  authority: string
+  amount: bigint
+  // Only carried by the checked instructions
+  decimals?: number
+}
+
+function decodeMintTo(ins: Instruction, d1: string): DecodedSupplyChange {
+  const { instructions } = getProgram(ins)
+  if (d1 === instructions.mintToChecked.d1) {
+    const { accounts, data } = instructions.mintToChecked.decode(ins)
+    return {
+      mint: accounts.tokenMint,
+      account: accounts.mintTo,
+      authority: accounts.mintAuthority,
+      amount: data.amount,
+      decimals: data.decimals,
+    }
+  }
+
+  const { accounts, data } = instructions.mintTo.decode(ins)
+  return { mint: accounts.mint, account: accounts.mintTo, authority: accounts.mintAuthority, amount: data.amount }
+}
+
+function decodeBurn(ins: Instruction, d1: string): DecodedSupplyChange {
+  const { instructions } = getProgram(ins)
+  if (d1 === instructions.burnChecked.d1) {
+    const { accounts, data } = instructions.burnChecked.decode(ins)
+    return {
+      mint: accounts.tokenMint,
+      account: accounts.burnAccount,
+      authority: accounts.owner,
+      amount: data.amount,
+      decimals: data.decimals,
+    }
+  }
+
+  const { accounts, data } = instructions.burn.decode(ins)
+  return { mint: accounts.mint, account: accounts.burnAccount, authority: accounts.owner, amount: data.amount }
+}
+
+/**
+ * Returns null for authority changes of token accounts, only the ones of mints are tracked
+ */
+export function handleSetAuthority(ins: Instruction): TokenSupplyChange | null {
+  const {
+    accounts,
+    data: { authorityType, newAuthority },
+  } = getProgram(ins).instructions.setAuthority.decode(ins)
+  if (authorityType.kind === 'AccountOwner' || authorityType.kind === 'CloseAccount') return null
+
+  return {
+    type: 'set_authority',
+    program: getProgramType(ins),
+    mint: accounts.mint,
+    decimals: null,
+    amount: 0n,
+    account: null,
+    authority: accounts.currentAuthority,
+    authorityType: authorityType.kind,
+    newAuthority: newAuthority ?? null,
+    freezeAuthority: null,
+  }
+}
+
+// Unchecked instructions don't carry decimals, the minted or burned token account balance always has them
+function getDecimals(logger: Logger, ins: Instruction, block: Block, account: string): number | null {
+  const balance = getInstructionBalances(ins, block).find((b) => b.account === account)
+  const decimals = balance?.postDecimals ?? balance?.preDecimals
+  if (decimals === undefined) {
+    logger.warn({
+      message: 'Token supply: token account balance not found',
+      tx: getTransactionHash(ins, block),
+      block_number: block.header.number,
+      account,
+    })
+
+    return null
+  }
+
+  return decimals
+}
@@ -0,0 +1,162 @@
+import { BlockRef, OptionalArgs, PortalAbstractStream } from '@sqd-pipes/core'
+import * as tokenProgram from '../../abi/tokenProgram'
+import * as token2022Program from '../../abi/token_2022_program'
+import { getInstructionD1, getTransactionHash } from '../../utils'
+import type { TokenProgram } from '../transfers'
+import { handleBurn, handleInitializeMint, handleMintTo, handleSetAuthority } from './handlers'
+
+export type TokenSupplyEvent = {
+  id: string
+  type: 'initialize_mint' | 'mint' | 'burn' | 'set_authority'
+  program: TokenProgram
+  mint: string
+  // Not known for authority changes
+  decimals: number | null
+  // Minted or burned raw amount, zero for other events
+  amount: bigint
+  // Token account minted to or burned from
+  account: string | null
+  // Signer of the instruction, mints are initialized without one
+  authority: string | null
+  // Authority set by the instruction, null if it's removed
+  authorityType: string | null
+  newAuthority: string | null
+  // Only set on initialization, later changes are set_authority events with the FreezeAccount type
+  freezeAuthority: string | null
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+const { instructions } = tokenProgram
+
+/**
+ * Mints, burns, mint initializations and authority changes of both token programs.
+ * Instruction discriminators and account positions are the same in both programs.
+ */
+export class TokenSupplyStream extends PortalAbstractStream<
+  TokenSupplyEvent,
+  OptionalArgs<{
+    // All mints are tracked if not set
+    mints?: string[]
+  }>
+> {
+  async stream(): Promise<ReadableStream<TokenSupplyEvent[]>> {
+    const mints = this.options.args?.mints || []
+
+    const request = {
+      programId: [tokenProgram.programId, token2022Program.programId],
+      isCommitted: true,
+      transaction: true,
+      transactionTokenBalances: true,
+    }
+    // The mint is the first account of every instruction but burns
+    const mintFirst = [
+      instructions.initializeMint.d1,
+      instructions.initializeMint2.d1,
+      instructions.mintTo.d1,
+      instructions.mintToChecked.d1,
+      instructions.setAuthority.d1,
+    ]
+    const mintSecond = [instructions.burn.d1, instructions.burnChecked.d1]
+
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+        },
+        tokenBalance: {
+          transactionIndex: true,
+          account: true,
+          preDecimals: true,
+          postDecimals: true,
+        },
+      },
+      instructions: mints.length
+        ? [
+            { ...request, d1: mintFirst, a0: mints },
+            { ...request, d1: mintSecond, a1: mints },
+          ]
+        : [{ ...request, d1: [...mintFirst, ...mintSecond] }],
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const events: TokenSupplyEvent[] = []
+
+            for (const ins of block.instructions) {
+              if (ins.programId !== tokenProgram.programId && ins.programId !== token2022Program.programId) continue
+
+              const d1 = getInstructionD1(ins)
+              let event: Omit<TokenSupplyEvent, 'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'> | null =
+                null
+
+              switch (d1) {
+                case instructions.initializeMint.d1:
+                case instructions.initializeMint2.d1:
+                  event = handleInitializeMint(ins, d1)
+                  break
+                case instructions.mintTo.d1:
+                case instructions.mintToChecked.d1:
+                  event = handleMintTo(this.logger, ins, block, d1)
+                  break
+                case instructions.burn.d1:
+                case instructions.burnChecked.d1:
+                  event = handleBurn(this.logger, ins, block, d1)
+                  break
+                case instructions.setAuthority.d1:
+                  event = handleSetAuthority(ins)
+                  break
+              }
+
+              if (!event) continue
+
+              const txHash = getTransactionHash(ins, block)
+
+              events.push({
+                ...event,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return events
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
@@ -0,0 +1,216 @@
+import { BlockRef, OptionalArgs, PortalAbstractStream } from '@sqd-pipes/core'
+import type { TokenBalance } from '@subsquid/solana-stream'
+import * as tokenProgram from '../../abi/tokenProgram'
+import * as token2022Program from '../../abi/token_2022_program'
+import {
+  type Block,
+  type Instruction,
+  decodeTransfer,
+  getInstructionBalances,
+  getTransactionHash,
+  isTransferInstruction,
+} from '../../utils'
+
+export type TokenProgram = 'spl_token' | 'token_2022'
+
+export type TransferParty = {
+  account: string
+  // Owner of the token account, null if its balance is not a part of the transaction
+  owner: string | null
+}
+
+export type SolanaTokenTransfer = {
+  id: string
+  program: TokenProgram
+  mint: string
+  decimals: number
+  amount: bigint
+  source: TransferParty
+  destination: TransferParty
+  // Owner or delegate that signed the transfer
+  authority: string
+  transaction: { hash: string; index: number }
+  instruction: { address: number[] }
+  block: BlockRef
+  timestamp: Date
+}
+
+/**
+ * Top-level and inner transfers of the given mints, or from and to the given wallets.
+ * The portal can't filter transfers by mint or owner, as `transfer` only references token accounts,
+ * so transactions are selected by their token balances instead, and transfers are matched against them.
+ */
+export class SolanaTokenTransfersStream extends PortalAbstractStream<
+  SolanaTokenTransfer,
+  OptionalArgs<{
+    mints?: string[]
+    wallets?: string[]
+  }>
+> {
+  async stream(): Promise<ReadableStream<SolanaTokenTransfer[]>> {
+    const mints = this.options.args?.mints || []
+    const wallets = this.options.args?.wallets || []
+    if (mints.length === 0 && wallets.length === 0) {
+      throw new Error('Token transfers: at least one mint or wallet must be configured')
+    }
+
+    const byBalance = { transaction: true, transactionInstructions: true }
+    const byInstruction = {
+      programId: [tokenProgram.programId, token2022Program.programId],
+      isCommitted: true,
+      transaction: true,
+      transactionTokenBalances: true,
+    }
+
+    const source = await this.getStream({
+      type: 'solana',
+      fields: {
+        block: {
+          number: true,
+          hash: true,
+          timestamp: true,
+        },
+        transaction: {
+          transactionIndex: true,
+          signatures: true,
+        },
+        instruction: {
+          transactionIndex: true,
+          data: true,
+          instructionAddress: true,
+          programId: true,
+          accounts: true,
+          isCommitted: true,
+        },
+        tokenBalance: {
+          transactionIndex: true,
+          account: true,
+          preMint: true,
+          postMint: true,
+          preDecimals: true,
+          postDecimals: true,
+          preOwner: true,
+          postOwner: true,
+        },
+      },
+      tokenBalances: [
+        ...(mints.length
+          ? [
+              { preMint: mints, ...byBalance },
+              { postMint: mints, ...byBalance },
+            ]
+          : []),
+        ...(wallets.length
+          ? [
+              { preOwner: wallets, ...byBalance },
+              { postOwner: wallets, ...byBalance },
+            ]
+          : []),
+      ],
+      /**
+       * Balances of a wallet only cover its side of a transfer,
+       * so outgoing transfers are also requested with all the balances of their transaction
+       * to resolve the owner of the destination.
+       */
+      instructions: wallets.length
+        ? [
+            { ...byInstruction, d1: [tokenProgram.instructions.transfer.d1], a2: wallets },
+            { ...byInstruction, d1: [tokenProgram.instructions.transferChecked.d1], a3: wallets },
+          ]
+        : [],
+    })
+
+    return source.pipeThrough(
+      new TransformStream({
+        transform: ({ blocks }, controller) => {
+          const res = blocks.flatMap((block: any) => {
+            if (!block.instructions) return []
+
+            const transfers: SolanaTokenTransfer[] = []
+
+            for (const ins of block.instructions) {
+              if (!ins.isCommitted || !isTransferInstruction(ins)) continue
+
+              const transfer = handleTransfer(ins, block)
+              if (!transfer) continue
+
+              const tracked =
+                mints.includes(transfer.mint) ||
+                wallets.includes(transfer.authority) ||
+                (transfer.source.owner !== null && wallets.includes(transfer.source.owner)) ||
+                (transfer.destination.owner !== null && wallets.includes(transfer.destination.owner))
+              if (!tracked) continue
+
+              const txHash = getTransactionHash(ins, block)
+
+              transfers.push({
+                ...transfer,
+                id: `${txHash}/${ins.instructionAddress.join('.')}`,
+                block: {
+                  number: block.header.number,
+                  hash: block.header.hash,
+                  timestamp: block.header.timestamp,
+                },
+                instruction: {
+                  address: ins.instructionAddress,
+                },
+                transaction: {
+                  hash: txHash,
+                  index: ins.transactionIndex,
+                },
+                timestamp: new Date(block.header.timestamp * 1000),
+              })
+            }
+
+            return transfers
+          })
+
+          controller.enqueue(res)
+        },
+      }),
+    )
+  }
+}
+
+function handleTransfer(
+  ins: Instruction,
+  block: Block,
+): Omit<SolanaTokenTransfer, 'id' | 'transaction' | 'instruction' | 'block' | 'timestamp'> | null {
+  const { accounts, data } = decodeTransfer(ins)
+  const tokenBalances = getInstructionBalances(ins, block)
+  const source = tokenBalances.find((b: TokenBalance) => b.account === accounts.source)
+  const destination = tokenBalances.find((b: TokenBalance) => b.account === accounts.destination)
+
+  // Only transferChecked references the mint, plain transfers rely on the balances of either side
+  const mint = accounts.tokenMint ?? getMint(source) ?? getMint(destination)
+  const decimals = data.decimals ?? getDecimals(source) ?? getDecimals(destination)
+  if (!mint || decimals === undefined) return null
+
+  const authority = accounts.authority ?? accounts.owner
+  if (!authority) {
+    throw new Error('Token transfers: authority not found in transfer instruction')
+  }
+
+  return {
+    program: ins.programId === token2022Program.programId ? 'token_2022' : 'spl_token',
+    mint,
+    decimals,
+    amount: data.amount,
+    source: { account: accounts.source, owner: getOwner(source) },
+    destination: { account: accounts.destination, owner: getOwner(destination) },
+    authority,
+  }
+}
+
+// Accounts closed in the same transaction only have pre balances, new ones only post balances
+function getMint(balance?: TokenBalance<any>): string | undefined {
+  return balance?.postMint ?? balance?.preMint
+}
+
+function getDecimals(balance?: TokenBalance<any>): number | undefined {
+  return balance?.postDecimals ?? balance?.preDecimals
+}
+
+function getOwner(balance?: TokenBalance<any>): string | null {
+  return balance?.postOwner ?? balance?.preOwner ?? null
+}
@@ -3,19 +3,23 @@ import { getInstructionData } from '@subsquid/solana-stream'
 import { toHex } from '@subsquid/util-internal-hex'
 import * as token2022Program from '../abi/token_2022_program'
 import * as tokenProgram from '../abi/tokenProgram'
+import * as extensions from '../streams/token_2022/extensions'
 import { PublicKey } from '@solana/web3.js'
 
 export * from './logger'
 
-interface DecodedTransfer {
+export interface DecodedTransfer {
   accounts: {
     destination: string;
     source: string;
     authority?: string;
     owner?: string;
+    // Only set by transferChecked
+    tokenMint?: string;
   };
   data: {
     amount: bigint;
+    decimals?: number;
   };
 }
 
@@ -91,6 +95,10 @@ export function getInstructionD1(instruction: Instruction) {
   return toHex(getInstructionData(instruction)).slice(0, 4)
 }
 
+export function getInstructionD2(instruction: Instruction) {
+  return toHex(getInstructionData(instruction)).slice(0, 6)
+}
+
 /**
  * Sort two accounts by their public key
  * @param accountA
@@ -133,6 +141,56 @@ export function getInstructionLogs(ins: Instruction, block: Block) {
   );
 }
 
+/**
+ * Decode all events of a given type emitted in the logs of an instruction.
+ * Logs that don't start with the event discriminator are skipped.
+ * @param ins
+ * @param block
+ * @param event
+ * @returns
+ */
+export function getInstructionEvents<T>(
+  ins: Instruction,
+  block: Block,
+  event: { d8: string; decode(event: { msg: string }): T }
+): T[] {
+  return getInstructionLogs(ins, block)
+    .map((log) => `0x${Buffer.from(log.message, "base64").toString("hex")}`)
+    .filter((msg) => msg.startsWith(event.d8))
+    .map((msg) => event.decode({ msg }));
+}
+
+// Anchor prefixes the data of self CPI event instructions (`emit_cpi!`) with this tag
+const ANCHOR_EVENT_IX_TAG = "0xe445a52e51cb9a1d";
+
+/**
+ * Decode all events of a given type emitted by an instruction through a self CPI.
+ * Unlike logged events, these are passed as data of direct child instructions of the same program.
+ * @param ins
+ * @param block
+ * @param event
+ * @returns
+ */
+export function getInstructionCpiEvents<T>(
+  ins: Instruction,
+  block: Block,
+  event: { d8: string; decode(event: { msg: string }): T }
+): T[] {
+  return block.instructions
+    .filter(
+      (inner: Instruction) =>
+        inner.transactionIndex === ins.transactionIndex &&
+        inner.programId === ins.programId &&
+        inner.instructionAddress.length === ins.instructionAddress.length + 1 &&
+        ins.instructionAddress.every((v: number, i: number) => v === inner.instructionAddress[i])
+    )
+    .map((inner: Instruction) => toHex(getInstructionData(inner)))
+    .filter((data: string) => data.startsWith(ANCHOR_EVENT_IX_TAG))
+    .map((data: string) => `0x${data.slice(ANCHOR_EVENT_IX_TAG.length)}`)
+    .filter((msg: string) => msg.startsWith(event.d8))
+    .map((msg: string) => event.decode({ msg }));
+}
+
 /**
  * Convert a sqrtPrice in x64, commmon in concentrated liquidity protocols, to a human readable price
  * @param sqrtPriceX64
@@ -151,6 +209,72 @@ export function sqrtPriceX64ToPrice(
   return Number(price);
 }
 
+/**
+ * Fee as a fraction of the input amount
+ * @param fee
+ * @param inputAmount
+ * @returns
+ */
+export function getFeeRate(fee: bigint, inputAmount: bigint): number | null {
+  if (inputAmount === 0n) return null;
+
+  return Number(fee) / Number(inputAmount);
+}
+
+/**
+ * Token-2022 transfer fee withheld from a transfer into `destination`, as reported by a transferCheckedWithFee
+ * instruction under the swap. Zero for SPL Token accounts, and null if no transfer reports it, as the fee then
+ * depends on the transfer fee config of the mint.
+ * @param ins
+ * @param block
+ * @param destination
+ * @param amount
+ * @returns
+ */
+export function getTransferFee(
+  ins: Instruction,
+  block: Block,
+  destination: string,
+  amount: bigint
+): bigint | null {
+  const balance = getInstructionBalances(ins, block).find(
+    (b) => b.account === destination
+  );
+  if (!balance) return null;
+  if (balance.postProgramId !== token2022Program.programId) return 0n;
+
+  const transfers: Instruction[] = block.instructions.filter(
+    (inner: Instruction) =>
+      inner.transactionIndex === ins.transactionIndex &&
+      inner.programId === token2022Program.programId &&
+      inner.instructionAddress.length > ins.instructionAddress.length &&
+      ins.instructionAddress.every((v: number, i: number) => v === inner.instructionAddress[i]) &&
+      getInstructionD2(inner) === extensions.transferCheckedWithFee.d2
+  );
+  const transfer = transfers
+    .map((inner) => extensions.transferCheckedWithFee.decode(inner))
+    .find((t) => t.accounts.destination === destination && t.data.amount === amount);
+
+  return transfer ? transfer.data.fee : null;
+}
+
+/**
+ * Token-2022 transfer fee of a transfer under a transfer fee config, rounded up and capped like the program does
+ * @param amount
+ * @param transferFeeBasisPoints
+ * @param maximumFee
+ * @returns
+ */
+export function calculateTransferFee(
+  amount: bigint,
+  transferFeeBasisPoints: number,
+  maximumFee: bigint
+): bigint {
+  const fee = (amount * BigInt(transferFeeBasisPoints) + 9_999n) / 10_000n;
+
+  return fee < maximumFee ? fee : maximumFee;
+}
+
 /**
  * Returns decoded token transfers from direct child instructions
  * @param ins
@@ -161,29 +285,54 @@ export function getDecodedInnerTransfers(
   ins: Instruction,
   block: Block
 ): DecodedTransfer[] {
-  return getInnerTransfersByLevel(ins, block.instructions, 1).map((t) => {
-    const programId = t.programId;
-    const d1 = getInstructionD1(t);
-
-    if (programId === tokenProgram.programId) {
-      if (d1 === tokenProgram.instructions.transferChecked.d1) {
-        return tokenProgram.instructions.transferChecked.decode(t);
-      }
-      if (d1 === tokenProgram.instructions.transfer.d1) {
-        return tokenProgram.instructions.transfer.decode(t);
-      }
+  return getInnerTransfersByLevel(ins, block.instructions, 1).map(decodeTransfer);
+}
+
+/**
+ * Check if an instruction is a transfer or transferChecked of either token program
+ * @param ins
+ * @returns
+ */
+export function isTransferInstruction(ins: Instruction) {
+  if (ins.programId === tokenProgram.programId) {
+    const d1 = getInstructionD1(ins);
+    return d1 === tokenProgram.instructions.transfer.d1 || d1 === tokenProgram.instructions.transferChecked.d1;
+  }
+  if (ins.programId === token2022Program.programId) {
+    const d1 = getInstructionD1(ins);
+    return d1 === token2022Program.instructions.transfer.d1 || d1 === token2022Program.instructions.transferChecked.d1;
+  }
+
+  return false;
+}
+
+/**
+ * Decode a transfer or transferChecked instruction of either token program
+ * @param t
+ * @returns
+ */
+export function decodeTransfer(t: Instruction): DecodedTransfer {
+  const programId = t.programId;
+  const d1 = getInstructionD1(t);
+
+  if (programId === tokenProgram.programId) {
+    if (d1 === tokenProgram.instructions.transferChecked.d1) {
+      return tokenProgram.instructions.transferChecked.decode(t);
+    }
+    if (d1 === tokenProgram.instructions.transfer.d1) {
+      return tokenProgram.instructions.transfer.decode(t);
     }
-    if (programId === token2022Program.programId) {
-      if (d1 === token2022Program.instructions.transferChecked.d1) {
-        return token2022Program.instructions.transferChecked.decode(t);
-      }
-      if (d1 === token2022Program.instructions.transfer.d1) {
-        return token2022Program.instructions.transfer.decode(t);
-      }
+  }
+  if (programId === token2022Program.programId) {
+    if (d1 === token2022Program.instructions.transferChecked.d1) {
+      return token2022Program.instructions.transferChecked.decode(t);
+    }
+    if (d1 === token2022Program.instructions.transfer.d1) {
+      return token2022Program.instructions.transfer.decode(t);
     }
+  }
 
-    throw new Error(`Unknown token transfer instruction: ${t.d1}`);
-  });
+  throw new Error(`Unknown token transfer instruction: ${d1}`);
 }
 
 /**
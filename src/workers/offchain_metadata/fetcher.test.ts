@@ -0,0 +1,185 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { type FetcherOptions, OffchainMetadataFetcher } from './fetcher'
+
+const metadata = JSON.stringify({
+  name: 'Token',
+  symbol: 'TKN',
+  image: 'https://example.com/token.png',
+  extensions: { twitter: 'https://x.com/token' },
+})
+const MAX_CONTENT_LENGTH = 1024
+
+// Local stand-in for the metadata hosts and gateways, counting the requests of every path
+const requests = new Map<string, number>()
+const server = http.createServer((req, res) => {
+  const path = req.url ?? ''
+  requests.set(path, (requests.get(path) ?? 0) + 1)
+
+  switch (path) {
+    case '/token.json':
+    case '/mirror/token.json':
+    case '/ipfs/QmToken':
+      res.writeHead(200, { 'content-type': 'application/json' })
+      return res.end(metadata)
+    case '/invalid.json':
+      res.writeHead(200, { 'content-type': 'application/json' })
+      return res.end('{"name": 1}')
+    case '/not-json':
+      res.writeHead(200, { 'content-type': 'text/html' })
+      return res.end('<html></html>')
+    case '/large-with-length':
+      res.writeHead(200, { 'content-length': String(MAX_CONTENT_LENGTH + 1) })
+      return res.end('x'.repeat(MAX_CONTENT_LENGTH + 1))
+    case '/large-chunked':
+      // No content-length, the body is streamed in chunks
+      res.writeHead(200)
+      for (let i = 0; i < 4; i++) res.write('x'.repeat(MAX_CONTENT_LENGTH / 2))
+      return res.end()
+    case '/multibyte': {
+      // Fewer UTF-16 code units than the limit, but more bytes
+      const body = JSON.stringify({ name: 'é'.repeat(MAX_CONTENT_LENGTH * 0.75) })
+      res.writeHead(200)
+      return res.end(body)
+    }
+    case '/flaky':
+      if (requests.get(path) === 1) {
+        res.writeHead(503)
+        return res.end()
+      }
+      res.writeHead(200)
+      return res.end(metadata)
+    default:
+      res.writeHead(404)
+      return res.end()
+  }
+})
+
+let baseUrl: string
+let options: FetcherOptions
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  options = {
+    ipfsGateways: [`${baseUrl}/ipfs`],
+    arweaveGateways: [`${baseUrl}/arweave`],
+    requestsPerSecond: 1000,
+    timeout: 5000,
+    maxRetries: 1,
+    maxContentLength: MAX_CONTENT_LENGTH,
+    cacheSize: 100,
+  }
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests.clear()
+})
+
+describe('OffchainMetadataFetcher', () => {
+  it('fetches and validates metadata', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/token.json`)
+
+    expect(result).toMatchObject({
+      status: 'ok',
+      metadata: {
+        name: 'Token',
+        symbol: 'TKN',
+        image: 'https://example.com/token.png',
+        twitter: 'https://x.com/token',
+      },
+    })
+  })
+
+  it('strips null byte padding from URIs', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/token.json\0\0\0`)
+
+    expect(result.status).toBe('ok')
+  })
+
+  it('reports documents that are not metadata as invalid', async () => {
+    const fetcher = new OffchainMetadataFetcher(options)
+
+    expect(await fetcher.fetch(`${baseUrl}/invalid.json`)).toMatchObject({
+      status: 'invalid',
+      error: 'name is not a string',
+    })
+    expect(await fetcher.fetch(`${baseUrl}/not-json`)).toMatchObject({ status: 'invalid' })
+  })
+
+  it('fails on client errors without retrying', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/missing.json`)
+
+    expect(result).toEqual({ status: 'failed', error: `${baseUrl}/missing.json responded with 404` })
+    expect(requests.get('/missing.json')).toBe(1)
+  })
+
+  it('retries server errors', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/flaky`)
+
+    expect(result.status).toBe('ok')
+    expect(requests.get('/flaky')).toBe(2)
+  })
+
+  it('rejects documents by their content-length', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/large-with-length`)
+
+    expect(result).toEqual({
+      status: 'failed',
+      error: `${baseUrl}/large-with-length content is larger than ${MAX_CONTENT_LENGTH} bytes`,
+    })
+  })
+
+  it('stops reading streamed documents at the limit', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/large-chunked`)
+
+    expect(result).toMatchObject({ status: 'failed', error: expect.stringContaining('content is larger than') })
+  })
+
+  it('limits the size in bytes', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch(`${baseUrl}/multibyte`)
+
+    expect(result).toMatchObject({ status: 'failed', error: expect.stringContaining('content is larger than') })
+  })
+
+  it('fetches IPFS URIs through the configured gateways once', async () => {
+    const fetcher = new OffchainMetadataFetcher(options)
+
+    const first = await fetcher.fetch('ipfs://QmToken')
+    const second = await fetcher.fetch('https://gateway.pinata.cloud/ipfs/QmToken')
+
+    expect(first.status).toBe('ok')
+    expect(second).toBe(first)
+    expect(requests.get('/ipfs/QmToken')).toBe(1)
+  })
+
+  it('shares results of the same document under different URIs', async () => {
+    const fetcher = new OffchainMetadataFetcher(options)
+
+    const first = await fetcher.fetch(`${baseUrl}/token.json`)
+    const second = await fetcher.fetch(`${baseUrl}/mirror/token.json`)
+
+    expect(second).toBe(first)
+    expect(first).toMatchObject({ status: 'ok', contentHash: expect.stringMatching(/^[0-9a-f]{64}$/) })
+  })
+
+  it('fetches other URIs again, as their document can change', async () => {
+    const fetcher = new OffchainMetadataFetcher(options)
+
+    await fetcher.fetch(`${baseUrl}/token.json`)
+    await fetcher.fetch(`${baseUrl}/token.json`)
+
+    expect(requests.get('/token.json')).toBe(2)
+  })
+
+  it('fails on unsupported URIs', async () => {
+    const result = await new OffchainMetadataFetcher(options).fetch('data:application/json,{}')
+
+    expect(result).toEqual({ status: 'failed', error: 'unsupported uri: data:application/json,{}' })
+  })
+})
@@ -0,0 +1,194 @@
+import { createHash } from 'node:crypto'
+import { retry } from '../../utils/retry'
+import { InvalidMetadataError, type OffchainMetadata, parseOffchainMetadata } from './validate'
+
+export type FetcherOptions = {
+  ipfsGateways: string[]
+  arweaveGateways: string[]
+  requestsPerSecond: number
+  timeout: number
+  maxRetries: number
+  maxContentLength: number
+  cacheSize: number
+}
+
+export type FetchResult =
+  | { status: 'ok'; contentHash: string; metadata: OffchainMetadata }
+  | { status: 'invalid'; contentHash: string; error: string }
+  | { status: 'failed'; error: string }
+
+/**
+ * Resolves metadata URIs through the configured gateways.
+ * Results are cached by the sha256 of the document, so a document served under several URIs is validated once.
+ * IPFS and Arweave documents are content addressed, so their content id is mapped to the hash
+ * and they are fetched once no matter which gateway the URI points to.
+ */
+export class OffchainMetadataFetcher {
+  private documents = new Map<string, FetchResult>()
+  private contentHashes = new Map<string, string>()
+  private nextRequestAt = 0
+
+  constructor(private options: FetcherOptions) {}
+
+  async fetch(uri: string): Promise<FetchResult> {
+    // Metaplex pads strings with null bytes up to their maximum length
+    const target = resolveUri(uri.replace(/\0/g, '').trim())
+    if (!target) {
+      return { status: 'failed', error: `unsupported uri: ${uri}` }
+    }
+
+    const knownHash = target.contentId && this.contentHashes.get(target.contentId)
+    const cached = knownHash && this.documents.get(knownHash)
+    if (cached) return cached
+
+    // Failures might be temporary, so they are not cached
+    const res = await this.fetchFromGateways(target.urls(this.options))
+    if ('error' in res) {
+      return { status: 'failed', error: res.error }
+    }
+
+    const contentHash = createHash('sha256').update(res.body).digest('hex')
+    if (target.contentId) {
+      this.setCache(this.contentHashes, target.contentId, contentHash)
+    }
+
+    let result = this.documents.get(contentHash)
+    if (!result) {
+      result = parseBody(contentHash, res.body)
+      this.setCache(this.documents, contentHash, result)
+    }
+
+    return result
+  }
+
+  private async fetchFromGateways(urls: string[]): Promise<{ body: Buffer } | { error: string }> {
+    let error = 'no gateways configured'
+
+    for (const url of urls) {
+      try {
+        const res = await retry(() => this.fetchOnce(url), this.options.maxRetries, 500)
+        if ('body' in res) return res
+
+        error = res.error
+      } catch (e: any) {
+        error = e.message
+      }
+    }
+
+    return { error }
+  }
+
+  /**
+   * Throws on errors that might go away on retry, other ones are returned.
+   * Documents over `maxContentLength` are rejected by their `content-length`, and the body is read
+   * only up to the limit, as the header is optional and servers might not respect it.
+   */
+  private async fetchOnce(url: string): Promise<{ body: Buffer } | { error: string }> {
+    await this.waitForRateLimit()
+
+    const res = await fetch(url, { signal: AbortSignal.timeout(this.options.timeout) })
+    if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+      await res.body?.cancel()
+      return { error: `${url} responded with ${res.status}` }
+    }
+    if (!res.ok) {
+      await res.body?.cancel()
+      throw new Error(`${url} responded with ${res.status}`)
+    }
+
+    const tooLarge = { error: `${url} content is larger than ${this.options.maxContentLength} bytes` }
+    if (Number(res.headers.get('content-length')) > this.options.maxContentLength) {
+      await res.body?.cancel()
+      return tooLarge
+    }
+
+    const chunks: Uint8Array[] = []
+    let length = 0
+    const reader = res.body?.getReader()
+    while (reader) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      length += value.length
+      if (length > this.options.maxContentLength) {
+        await reader.cancel()
+        return tooLarge
+      }
+      chunks.push(value)
+    }
+
+    return { body: Buffer.concat(chunks) }
+  }
+
+  private async waitForRateLimit() {
+    const now = Date.now()
+    const wait = this.nextRequestAt - now
+
+    this.nextRequestAt = Math.max(now, this.nextRequestAt) + 1000 / this.options.requestsPerSecond
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait))
+    }
+  }
+
+  private setCache<T>(cache: Map<string, T>, key: string, value: T) {
+    // Maps keep insertion order, so the first key is the oldest one
+    if (cache.size >= this.options.cacheSize) {
+      const [oldest] = cache.keys()
+      cache.delete(oldest)
+    }
+
+    cache.set(key, value)
+  }
+}
+
+function parseBody(contentHash: string, body: Buffer): FetchResult {
+  try {
+    return { status: 'ok', contentHash, metadata: parseOffchainMetadata(JSON.parse(body.toString('utf-8'))) }
+  } catch (e: any) {
+    if (e instanceof SyntaxError || e instanceof InvalidMetadataError) {
+      return { status: 'invalid', contentHash, error: e.message }
+    }
+
+    throw e
+  }
+}
+
+type ResolvedUri = {
+  // Set for content addressed URIs only, the document behind other URIs can change
+  contentId?: string
+  urls: (options: FetcherOptions) => string[]
+}
+
+/**
+ * Maps a URI to the URLs it can be fetched from.
+ * Links to public IPFS gateways are treated as IPFS URIs, so the configured gateways are used instead.
+ */
+function resolveUri(uri: string): ResolvedUri | null {
+  const ipfs = uri.match(/^ipfs:\/\/(?:ipfs\/)?(.+)$/) || uri.match(/^https?:\/\/[^/]+\/ipfs\/(.+)$/)
+  if (ipfs) {
+    const path = ipfs[1]
+    return {
+      contentId: `ipfs:${path}`,
+      urls: ({ ipfsGateways }) => ipfsGateways.map((gateway) => joinUrl(gateway, path)),
+    }
+  }
+
+  const arweave = uri.match(/^ar:\/\/(.+)$/) || uri.match(/^https?:\/\/(?:www\.)?arweave\.net\/(.+)$/)
+  if (arweave) {
+    const path = arweave[1]
+    return {
+      contentId: `ar:${path}`,
+      urls: ({ arweaveGateways }) => arweaveGateways.map((gateway) => joinUrl(gateway, path)),
+    }
+  }
+
+  if (/^https?:\/\//.test(uri)) {
+    return { urls: () => [uri] }
+  }
+
+  return null
+}
+
+function joinUrl(base: string, path: string) {
+  return `${base.replace(/\/+$/, '')}/${path}`
+}
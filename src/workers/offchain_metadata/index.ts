@@ -0,0 +1,145 @@
+import { NodeClickHouseClient } from '@clickhouse/client/dist/client'
+import { Schema, getTable } from '../../db/schema'
+import { logger } from '../../utils'
+import { type FetchResult, OffchainMetadataFetcher } from './fetcher'
+
+export interface OffchainMetadataConfig {
+  ipfsGateways?: string[]
+  arweaveGateways?: string[]
+  requestsPerSecond?: number
+  batchSize?: number
+  pollInterval?: number
+  timeout?: number
+  maxRetries?: number
+  maxAttempts?: number
+  // Defaults to the ClickHouse database
+  database?: string
+}
+
+// Source tables, the pipes writing them and the column holding the metadata URI
+const SOURCES = [
+  { pipe: 'metaplex', table: 'solana_metaplex_tokens', column: 'uri' },
+  { pipe: 'pumpfun.token-creation', table: 'solana_pumpfun_tokens', column: 'metadata_uri' },
+]
+
+type PendingUri = {
+  uri: string
+  attempts: number
+}
+
+/**
+ * Enriches tokens with their off-chain JSON metadata.
+ * It doesn't follow the chain, it polls the URIs already indexed by the metaplex and pump.fun pipes
+ * which are not yet in `solana_token_offchain_metadata`, and retries failed ones up to `maxAttempts` times.
+ * `getSchema` resolves the schema of the worker (`offchain-metadata`) and of the source pipes.
+ */
+export async function offchainMetadataWorker(
+  clickhouse: NodeClickHouseClient,
+  config: OffchainMetadataConfig,
+  getSchema: (name: string) => Schema,
+) {
+  const batchSize = config.batchSize ?? 100
+  const pollInterval = config.pollInterval ?? 30_000
+  const maxAttempts = config.maxAttempts ?? 3
+
+  const fetcher = new OffchainMetadataFetcher({
+    ipfsGateways: config.ipfsGateways ?? ['https://ipfs.io/ipfs'],
+    arweaveGateways: config.arweaveGateways ?? ['https://arweave.net'],
+    requestsPerSecond: config.requestsPerSecond ?? 5,
+    timeout: config.timeout ?? 10_000,
+    maxRetries: config.maxRetries ?? 2,
+    maxContentLength: 1024 * 1024,
+    cacheSize: 10_000,
+  })
+
+  while (true) {
+    const pending = await getPendingUris(clickhouse, getSchema, batchSize, maxAttempts)
+    if (pending.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, pollInterval))
+      continue
+    }
+
+    const values: ReturnType<typeof toRow>[] = []
+    for (const { uri, attempts } of pending) {
+      const result = await fetcher.fetch(uri)
+      if (result.status === 'failed') {
+        logger.warn({ message: 'Failed to fetch off-chain metadata', uri, error: result.error })
+      }
+
+      values.push(toRow(uri, attempts + 1, result))
+    }
+
+    await clickhouse.insert({
+      table: getTable(getSchema('offchain-metadata'), 'solana_token_offchain_metadata'),
+      format: 'JSONEachRow',
+      values,
+    })
+
+    logger.info(`Fetched off-chain metadata for ${values.length} URIs`)
+  }
+}
+
+async function getPendingUris(
+  clickhouse: NodeClickHouseClient,
+  getSchema: (name: string) => Schema,
+  limit: number,
+  maxAttempts: number,
+): Promise<PendingUri[]> {
+  // Source pipes might not be enabled, so only tables that exist are queried
+  const sources: { table: string; column: string }[] = []
+  for (const source of SOURCES) {
+    const table = getTable(getSchema(source.pipe), source.table)
+    const [{ result: exists }] = await clickhouse
+      .query({ query: `EXISTS TABLE ${table}`, format: 'JSONEachRow' })
+      .then((res) => res.json<{ result: number }>())
+
+    if (exists) sources.push({ table, column: source.column })
+  }
+  if (sources.length === 0) return []
+
+  const uris = sources
+    .map((s) => `SELECT DISTINCT ${s.column} AS uri FROM ${s.table} WHERE ${s.column} != ''`)
+    .join(' UNION DISTINCT ')
+
+  const res = await clickhouse.query({
+    query: `
+      SELECT s.uri AS uri, m.attempts AS attempts
+      FROM (${uris}) AS s
+      LEFT JOIN (
+        SELECT uri, argMax(status, fetched_at) AS status, max(attempts) AS attempts
+        FROM ${getTable(getSchema('offchain-metadata'), 'solana_token_offchain_metadata')}
+        GROUP BY uri
+      ) AS m ON m.uri = s.uri
+      WHERE m.uri = '' OR (m.status = 'failed' AND m.attempts < {maxAttempts:UInt16})
+      LIMIT {limit:UInt32}
+    `,
+    query_params: { limit, maxAttempts },
+    format: 'JSONEachRow',
+  })
+
+  return res.json<PendingUri>()
+}
+
+function toRow(uri: string, attempts: number, result: FetchResult) {
+  const metadata = result.status === 'ok' ? result.metadata : null
+
+  return {
+    uri,
+    status: result.status,
+    content_hash: result.status === 'failed' ? '' : result.contentHash,
+    name: metadata?.name ?? '',
+    symbol: metadata?.symbol ?? '',
+    description: metadata?.description ?? '',
+    image: metadata?.image ?? '',
+    animation_url: metadata?.animationUrl ?? '',
+    external_url: metadata?.externalUrl ?? '',
+    website: metadata?.website ?? '',
+    twitter: metadata?.twitter ?? '',
+    telegram: metadata?.telegram ?? '',
+    discord: metadata?.discord ?? '',
+    attributes: metadata?.attributes ?? [],
+    error: result.status === 'ok' ? '' : result.error,
+    attempts,
+    fetched_at: new Date(),
+  }
+}
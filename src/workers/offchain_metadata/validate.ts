@@ -0,0 +1,80 @@
+export type OffchainAttribute = {
+  trait_type: string
+  value: string
+}
+
+export type OffchainMetadata = {
+  name: string
+  symbol: string
+  description: string
+  image: string
+  animationUrl: string
+  externalUrl: string
+  website: string
+  twitter: string
+  telegram: string
+  discord: string
+  attributes: OffchainAttribute[]
+}
+
+export class InvalidMetadataError extends Error {}
+
+/**
+ * Validates a JSON document against the Metaplex token metadata standard.
+ * All fields are optional, but the ones present must have the expected types.
+ * Socials are not part of the standard, launchpads put them either at the top level
+ * or under `extensions`, so both are checked.
+ */
+export function parseOffchainMetadata(json: unknown): OffchainMetadata {
+  if (!isObject(json)) {
+    throw new InvalidMetadataError('metadata is not an object')
+  }
+
+  const extensions = isObject(json.extensions) ? json.extensions : {}
+
+  return {
+    name: getString(json, 'name'),
+    symbol: getString(json, 'symbol'),
+    description: getString(json, 'description'),
+    image: getString(json, 'image'),
+    animationUrl: getString(json, 'animation_url'),
+    externalUrl: getString(json, 'external_url'),
+    website: getString(json, 'website') || getString(extensions, 'website'),
+    twitter: getString(json, 'twitter') || getString(extensions, 'twitter'),
+    telegram: getString(json, 'telegram') || getString(extensions, 'telegram'),
+    discord: getString(json, 'discord') || getString(extensions, 'discord'),
+    attributes: getAttributes(json.attributes),
+  }
+}
+
+function getString(obj: Record<string, unknown>, key: string): string {
+  const value = obj[key]
+  if (value === undefined || value === null) return ''
+  if (typeof value !== 'string') {
+    throw new InvalidMetadataError(`${key} is not a string`)
+  }
+
+  return value
+}
+
+function getAttributes(attributes: unknown): OffchainAttribute[] {
+  if (attributes === undefined || attributes === null) return []
+  if (!Array.isArray(attributes)) {
+    throw new InvalidMetadataError('attributes is not an array')
+  }
+
+  return attributes.map((attribute) => {
+    if (!isObject(attribute) || typeof attribute.trait_type !== 'string') {
+      throw new InvalidMetadataError('attribute has no trait_type')
+    }
+    if (typeof attribute.value !== 'string' && typeof attribute.value !== 'number') {
+      throw new InvalidMetadataError(`attribute ${attribute.trait_type} has no value`)
+    }
+
+    return { trait_type: attribute.trait_type, value: String(attribute.value) }
+  })
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}